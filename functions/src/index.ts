@@ -3,6 +3,8 @@ import cors from "cors";
 import routes from "./routes";
 import { initializeFirebaseAdmin } from "./config/firebase";
 import { onRequest } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { BudgetService, SummaryService } from "./services";
 import { notFoundHandler, errorHandler } from "./middleware/error-handler";
 
 const app = express();
@@ -31,3 +33,30 @@ export const api = onRequest(
     app
 );
 
+const summaryService = new SummaryService();
+const budgetService = new BudgetService();
+
+// Keep each user's monthly summaries in step with every create, edit and delete of a stored transaction,
+// and notify budget thresholds the write crossed; failed events are retried, and both steps are idempotent
+export const aggregateMonthlySummaries = onDocumentWritten(
+    {
+        document: "users/{userId}/transactions/{transactionId}",
+        region: "me-central2",
+        retry: true,
+    },
+    async (event) => {
+        await summaryService.applyTransactionWrite(
+            event.params.userId,
+            event.id,
+            event.data?.before.data(),
+            event.data?.after.data()
+        );
+        await budgetService.recordWrite(
+            event.params.userId,
+            event.params.transactionId,
+            event.data?.before.data(),
+            event.data?.after.data()
+        );
+    }
+);
+
@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from "express";
+import { admin } from "../config/firebase";
+import { AppError } from "./error-handler";
+
+/**
+ * Authenticated caller derived from a verified Firebase ID token
+ */
+export interface AuthUser {
+    uid: string;
+    email?: string;
+    isAdmin: boolean;
+}
+
+declare module "express-serve-static-core" {
+    interface Request {
+        user?: AuthUser;
+    }
+}
+
+/**
+ * Verify the Firebase ID token sent as `Authorization: Bearer <token>`
+ * When FIREBASE_AUTH_EMULATOR_HOST is set the Admin SDK verifies emulator-issued tokens instead
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const header = req.headers.authorization || "";
+        const match = header.match(/^Bearer\s+(.+)$/i);
+        if (!match) {
+            throw new AppError("Missing or malformed Authorization header", 401);
+        }
+
+        let decoded: admin.auth.DecodedIdToken;
+        try {
+            decoded = await admin.auth().verifyIdToken(match[1]);
+        } catch (error) {
+            throw new AppError("Invalid or expired ID token", 401);
+        }
+
+        req.user = {
+            uid: decoded.uid,
+            email: decoded.email,
+            isAdmin: decoded.admin === true,
+        };
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * Only allow callers carrying the `admin` custom claim
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    if (!req.user) {
+        next(new AppError("Authentication required", 401));
+        return;
+    }
+    if (!req.user.isAdmin) {
+        next(new AppError("Admin role required", 403));
+        return;
+    }
+    next();
+}
+
+/**
+ * Ensure any userId in the path or body refers to the caller's own users/{uid} subtree
+ * Admins may act on behalf of any user
+ */
+export function authorizeUser(req: Request, res: Response, next: NextFunction): void {
+    if (!req.user) {
+        next(new AppError("Authentication required", 401));
+        return;
+    }
+
+    const requestedIds = [req.params.userId, req.body?.userId].filter((id) => id !== undefined);
+    const forbidden = requestedIds.some((id) => id !== req.user?.uid);
+
+    if (forbidden && !req.user.isAdmin) {
+        next(new AppError("You are not allowed to access another user's data", 403));
+        return;
+    }
+    next();
+}
+
+/**
+ * Resolve the user a parse request should be stored for
+ * An explicit (already authorized) body userId wins; `store: true` stores for the caller
+ */
+export function resolveActingUserId(req: Request): string | undefined {
+    if (req.body?.userId) {
+        return req.body.userId;
+    }
+    if (req.body?.store === true) {
+        return req.user?.uid;
+    }
+    return undefined;
+}
+
+/**
+ * Grant or revoke the admin custom claim for a user
+ * A uid without a Firebase Auth account is a 404
+ */
+export async function setAdminClaim(uid: string, isAdmin: boolean): Promise<void> {
+    let user: admin.auth.UserRecord;
+    try {
+        user = await admin.auth().getUser(uid);
+    } catch (error) {
+        if ((error as { code?: string }).code === "auth/user-not-found") {
+            throw new AppError("User not found", 404);
+        }
+        throw error;
+    }
+    await admin.auth().setCustomUserClaims(uid, {
+        ...(user.customClaims || {}),
+        admin: isAdmin,
+    });
+}
@@ -0,0 +1,67 @@
+import { createHash } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import * as functions from "firebase-functions";
+import { AppError } from "./error-handler";
+import { IdempotencyService } from "../services/idempotency-service";
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;
+
+const idempotencyService = new IdempotencyService();
+
+/**
+ * Replay the stored response when a request repeats its `Idempotency-Key` header
+ * The first request under a key runs normally and its response (anything below 500) is kept until the key expires;
+ * a retry with the same key and body gets that response back with `Idempotent-Replayed: true` and writes nothing.
+ * Reusing a key for a different body is a 422, and retrying while the first request is still running a 409.
+ * Requests without the header are not affected. Mount after authentication and validation.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const key = req.get("Idempotency-Key");
+        if (key === undefined) {
+            next();
+            return;
+        }
+        if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+            throw new AppError("Idempotency-Key must be 1-255 printable ASCII characters", 400);
+        }
+
+        const scope = `${req.user?.uid || "anonymous"} ${req.method} ${req.baseUrl}${req.path}`;
+        const requestHash = createHash("sha256").update(JSON.stringify(req.body ?? null)).digest("hex");
+
+        const previous = await idempotencyService.claim(scope, key, requestHash);
+        if (previous) {
+            if (previous.requestHash !== requestHash) {
+                throw new AppError("Idempotency-Key was already used for a different request", 422);
+            }
+            if (previous.status !== "completed" || previous.responseBody === undefined) {
+                throw new AppError("A request with this Idempotency-Key is still in progress", 409);
+            }
+            res.set("Idempotent-Replayed", "true")
+                .status(previous.statusCode || 200)
+                .type("application/json")
+                .send(previous.responseBody);
+            return;
+        }
+
+        // Save the response before it is sent: work left running after the response may never finish
+        const send = res.json.bind(res);
+        res.json = (body?: unknown) => {
+            const statusCode = res.statusCode;
+            const saved = statusCode < 500 ?
+                idempotencyService.complete(scope, key, statusCode, JSON.stringify(body)) :
+                idempotencyService.release(scope, key);
+            saved
+                .catch((error) => functions.logger.error("Failed to record idempotent response:", {
+                    message: error.message,
+                    url: req.originalUrl,
+                }))
+                .then(() => send(body));
+            return res;
+        };
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
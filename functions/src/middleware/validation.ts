@@ -1,5 +1,21 @@
 import { Request, Response, NextFunction } from "express";
 import { AppError } from "./error-handler";
+import {
+    ALIAS_PATTERN_MAX_LENGTH,
+    ANALYTICS_MAX_RANGE_DAYS,
+    DUPLICATE_MODES,
+    EXCHANGE_RATES_MAX_ROWS,
+    FX_BASE_CURRENCY,
+    RULE_KEYWORD_MAX_LENGTH,
+    RULE_MAX_KEYWORDS,
+    SUBSCRIPTION_STATUSES,
+    TEMPLATE_FIELDS,
+    TEMPLATE_MAX_SAMPLES,
+    TEMPLATE_MAX_TEST_MESSAGES,
+    TRANSACTION_TYPE_RULES,
+} from "../routes/transactions/const";
+import { daysBetween, isValidIsoDate, toLocalIsoDate } from "../routes/transactions/dates";
+import { ExchangeRate } from "../routes/transactions/types";
 
 /**
  * Validation schemas for different endpoints
@@ -18,23 +34,75 @@ const schemas = {
         },
     },
 
+    userUpdate: {
+        required: [],
+        validate: (data: any) => {
+            const { name, email, strictParsing, homeCurrency } = data;
+            if ([name, email, strictParsing, homeCurrency].every((value) => value === undefined)) {
+                throw new AppError("At least one of name, email, strictParsing or homeCurrency is required", 400);
+            }
+            if (name !== undefined && (typeof name !== "string" || name.trim().length === 0)) {
+                throw new AppError("Name must be a non-empty string", 400);
+            }
+            if (email !== undefined && (typeof email !== "string" || !isValidEmail(email))) {
+                throw new AppError("Email must be a valid email address", 400);
+            }
+            if (strictParsing !== undefined && typeof strictParsing !== "boolean") {
+                throw new AppError("StrictParsing must be a boolean", 400);
+            }
+            if (homeCurrency !== undefined && (typeof homeCurrency !== "string" || !/^[A-Z]{3}$/.test(homeCurrency))) {
+                throw new AppError("HomeCurrency must be a 3-letter ISO code", 400);
+            }
+        },
+    },
+
+    adminRole: {
+        required: ["admin"],
+        validate: (data: any) => {
+            if (typeof data.admin !== "boolean") {
+                throw new AppError("Admin must be a boolean", 400);
+            }
+        },
+    },
+
     transaction: {
         required: ["transaction"],
         validate: (data: any) => {
-            const { transaction, userId } = data;
+            const { transaction, userId, store, explain, strict, receivedAt, senderId, duplicates, clientId } = data;
             if (!transaction || typeof transaction !== "string" || transaction.trim().length === 0) {
                 throw new AppError("Transaction text is required", 400);
             }
             if (userId && typeof userId !== "string") {
                 throw new AppError("UserId must be a string if provided", 400);
             }
+            if (store !== undefined && typeof store !== "boolean") {
+                throw new AppError("Store must be a boolean if provided", 400);
+            }
+            if (explain !== undefined && typeof explain !== "boolean") {
+                throw new AppError("Explain must be a boolean if provided", 400);
+            }
+            if (strict !== undefined && typeof strict !== "boolean") {
+                throw new AppError("Strict must be a boolean if provided", 400);
+            }
+            if (receivedAt !== undefined && !isValidTimestamp(receivedAt)) {
+                throw new AppError("ReceivedAt must be an ISO 8601 timestamp if provided", 400);
+            }
+            if (senderId !== undefined && (typeof senderId !== "string" || senderId.trim().length === 0)) {
+                throw new AppError("SenderId must be a non-empty string if provided", 400);
+            }
+            if (duplicates !== undefined && !DUPLICATE_MODES.includes(duplicates)) {
+                throw new AppError(`Duplicates must be one of ${DUPLICATE_MODES.join(", ")}`, 400);
+            }
+            if (clientId !== undefined && !isValidClientId(clientId)) {
+                throw new AppError("ClientId must be a string of 1-255 characters if provided", 400);
+            }
         },
     },
 
     batchTransaction: {
         required: ["transactions"],
         validate: (data: any) => {
-            const { transactions, userId } = data;
+            const { transactions, userId, store, strict, receivedAt, senderId, duplicates, clientIds } = data;
             if (!Array.isArray(transactions)) {
                 throw new AppError("Transactions must be an array", 400);
             }
@@ -47,6 +115,32 @@ const schemas = {
             if (userId && typeof userId !== "string") {
                 throw new AppError("UserId must be a string if provided", 400);
             }
+            if (store !== undefined && typeof store !== "boolean") {
+                throw new AppError("Store must be a boolean if provided", 400);
+            }
+            if (strict !== undefined && typeof strict !== "boolean") {
+                throw new AppError("Strict must be a boolean if provided", 400);
+            }
+            if (receivedAt !== undefined && !isValidTimestamp(receivedAt)) {
+                throw new AppError("ReceivedAt must be an ISO 8601 timestamp if provided", 400);
+            }
+            if (senderId !== undefined && (typeof senderId !== "string" || senderId.trim().length === 0)) {
+                throw new AppError("SenderId must be a non-empty string if provided", 400);
+            }
+            if (duplicates !== undefined && !DUPLICATE_MODES.includes(duplicates)) {
+                throw new AppError(`Duplicates must be one of ${DUPLICATE_MODES.join(", ")}`, 400);
+            }
+            if (clientIds !== undefined) {
+                if (!Array.isArray(clientIds) || clientIds.length !== transactions.length) {
+                    throw new AppError("ClientIds must be an array with one ID per transaction", 400);
+                }
+                if (!clientIds.every(isValidClientId)) {
+                    throw new AppError("Each client ID must be a string of 1-255 characters", 400);
+                }
+                if (new Set(clientIds).size !== clientIds.length) {
+                    throw new AppError("Client IDs must be unique within a batch", 400);
+                }
+            }
         },
     },
 
@@ -54,9 +148,7 @@ const schemas = {
         required: ["keywords", "category"],
         validate: (data: any) => {
             const { keywords, category, priority } = data;
-            if (!Array.isArray(keywords) || keywords.length === 0) {
-                throw new AppError("Keywords must be a non-empty array", 400);
-            }
+            validateKeywords(keywords);
             if (!category || typeof category !== "string") {
                 throw new AppError("Category is required and must be a string", 400);
             }
@@ -66,10 +158,29 @@ const schemas = {
         },
     },
 
+    categoryRuleUpdate: {
+        required: [],
+        validate: (data: any) => {
+            const { keywords, category, priority } = data;
+            if (keywords === undefined && category === undefined && priority === undefined) {
+                throw new AppError("At least one of keywords, category or priority is required", 400);
+            }
+            if (keywords !== undefined) {
+                validateKeywords(keywords);
+            }
+            if (category !== undefined && (!category || typeof category !== "string")) {
+                throw new AppError("Category must be a non-empty string", 400);
+            }
+            if (priority !== undefined && (typeof priority !== "number" || priority < 0)) {
+                throw new AppError("Priority must be a non-negative number", 400);
+            }
+        },
+    },
+
     merchantPattern: {
         required: ["pattern", "normalizedName"],
         validate: (data: any) => {
-            const { pattern, normalizedName, category } = data;
+            const { pattern, normalizedName, category, priority } = data;
             if (!pattern || typeof pattern !== "string") {
                 throw new AppError("Pattern is required and must be a string", 400);
             }
@@ -79,6 +190,9 @@ const schemas = {
             if (category && typeof category !== "string") {
                 throw new AppError("Category must be a string if provided", 400);
             }
+            if (priority !== undefined && (typeof priority !== "number" || priority < 0)) {
+                throw new AppError("Priority must be a non-negative number", 400);
+            }
 
             // Test if pattern is a valid regex
             try {
@@ -88,8 +202,360 @@ const schemas = {
             }
         },
     },
+
+    merchantPatternUpdate: {
+        required: [],
+        validate: (data: any) => {
+            const { pattern, normalizedName, category, priority } = data;
+            if ([pattern, normalizedName, category, priority].every((value) => value === undefined)) {
+                throw new AppError("At least one of pattern, normalizedName, category or priority is required", 400);
+            }
+            if (pattern !== undefined) {
+                if (!pattern || typeof pattern !== "string") {
+                    throw new AppError("Pattern must be a non-empty string", 400);
+                }
+                try {
+                    new RegExp(pattern);
+                } catch (error) {
+                    throw new AppError("Invalid regex pattern", 400);
+                }
+            }
+            if (normalizedName !== undefined && (!normalizedName || typeof normalizedName !== "string")) {
+                throw new AppError("Normalized name must be a non-empty string", 400);
+            }
+            if (category !== undefined && typeof category !== "string") {
+                throw new AppError("Category must be a string if provided", 400);
+            }
+            if (priority !== undefined && (typeof priority !== "number" || priority < 0)) {
+                throw new AppError("Priority must be a non-negative number", 400);
+            }
+        },
+    },
+
+    merchantAlias: {
+        required: ["pattern"],
+        validate: (data: any) => {
+            validateMerchantAlias(data);
+            if (data.normalizedName === undefined && data.category === undefined) {
+                throw new AppError("At least one of normalizedName or category is required", 400);
+            }
+        },
+    },
+
+    merchantAliasUpdate: {
+        required: [],
+        validate: (data: any) => {
+            const { pattern, normalizedName, category } = data;
+            if ([pattern, normalizedName, category].every((value) => value === undefined)) {
+                throw new AppError("At least one of pattern, normalizedName or category is required", 400);
+            }
+            validateMerchantAlias(data);
+        },
+    },
+
+    transactionUpdate: {
+        required: [],
+        validate: (data: any) => {
+            const { description, amount, currency, merchant, date, category, note } = data;
+            if ("rawText" in data) {
+                throw new AppError("rawText cannot be edited", 400);
+            }
+            if ([description, amount, currency, merchant, date, category, note].every((value) => value === undefined)) {
+                throw new AppError("At least one editable field is required", 400);
+            }
+            if (amount !== undefined && (typeof amount !== "number" || !isFinite(amount) || amount < 0)) {
+                throw new AppError("Amount must be a non-negative number", 400);
+            }
+            if (currency !== undefined && (typeof currency !== "string" || !/^[A-Z]{3}$/.test(currency))) {
+                throw new AppError("Currency must be a 3-letter ISO code", 400);
+            }
+            if (date !== undefined && (typeof date !== "string" || !isValidIsoDate(date))) {
+                throw new AppError("Date must be a valid YYYY-MM-DD date", 400);
+            }
+            for (const [field, value] of Object.entries({ description, merchant, category })) {
+                if (value !== undefined && (typeof value !== "string" || value.trim().length === 0)) {
+                    throw new AppError(`${field} must be a non-empty string`, 400);
+                }
+            }
+            if (note !== undefined && (typeof note !== "string" || note.length > 500)) {
+                throw new AppError("Note must be a string of at most 500 characters", 400);
+            }
+        },
+    },
+
+    categoryCorrection: {
+        required: ["category"],
+        validate: (data: any) => {
+            const { category } = data;
+            if (!category || typeof category !== "string" || category.trim().length === 0) {
+                throw new AppError("Category is required and must be a non-empty string", 400);
+            }
+        },
+    },
+
+    ruleOrder: {
+        required: ["ids"],
+        validate: (data: any) => {
+            const { ids } = data;
+            if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string")) {
+                throw new AppError("Ids must be a non-empty array of strings", 400);
+            }
+        },
+    },
+
+    bankTemplate: {
+        required: ["id", "fields", "samples"],
+        validate: (data: any) => {
+            if (typeof data.id !== "string" || !/^[a-z0-9_]{2,40}$/.test(data.id)) {
+                throw new AppError("Id must be 2-40 lowercase letters, digits or underscores", 400);
+            }
+            validateBankTemplate(data, true);
+        },
+    },
+
+    bankTemplateUpdate: {
+        required: ["fields", "samples"],
+        validate: (data: any) => {
+            if (data.id !== undefined) {
+                throw new AppError("Template id cannot be changed", 400);
+            }
+            validateBankTemplate(data, true);
+        },
+    },
+
+    templateTest: {
+        required: ["template"],
+        validate: (data: any) => {
+            const { template, messages } = data;
+            if (!template || typeof template !== "object" || Array.isArray(template)) {
+                throw new AppError("Template must be an object", 400);
+            }
+            validateBankTemplate(template, false);
+            validateTestMessages(messages);
+            if (messages === undefined && !(template.samples?.length > 0)) {
+                throw new AppError("Messages are required when the template has no samples", 400);
+            }
+        },
+    },
+
+    templateMessages: {
+        required: [],
+        validate: (data: any) => {
+            validateTestMessages(data.messages);
+        },
+    },
+
+    exchangeRates: {
+        required: ["rates"],
+        validate: (data: any) => {
+            const { rates } = data;
+            if (!Array.isArray(rates) || rates.length === 0) {
+                throw new AppError("Rates must be a non-empty array", 400);
+            }
+            if (rates.length > EXCHANGE_RATES_MAX_ROWS) {
+                throw new AppError(`Maximum ${EXCHANGE_RATES_MAX_ROWS} rates per request`, 400);
+            }
+            rates.forEach((entry: Partial<ExchangeRate> | undefined, index: number) => {
+                const { currency, date, rate } = entry || {};
+                if (typeof currency !== "string" || !/^[A-Z]{3}$/.test(currency)) {
+                    throw new AppError(`Rate ${index + 1}: currency must be a 3-letter ISO code`, 400);
+                }
+                if (currency === FX_BASE_CURRENCY) {
+                    throw new AppError(`Rate ${index + 1}: ${FX_BASE_CURRENCY} is the base currency and always 1`, 400);
+                }
+                if (typeof date !== "string" || !isValidIsoDate(date)) {
+                    throw new AppError(`Rate ${index + 1}: date must be a valid YYYY-MM-DD date`, 400);
+                }
+                if (typeof rate !== "number" || !isFinite(rate) || rate <= 0) {
+                    throw new AppError(`Rate ${index + 1}: rate must be a positive number`, 400);
+                }
+            });
+        },
+    },
+
+    subscriptionUpdate: {
+        required: ["name"],
+        validate: (data: any) => {
+            const { name } = data;
+            if (typeof name !== "string" || name.trim().length === 0 || name.length > 100) {
+                throw new AppError("Name must be a non-empty string of at most 100 characters", 400);
+            }
+        },
+    },
+
+    budget: {
+        required: ["category", "limit"],
+        validate: (data: any) => validateBudget(data),
+    },
+
+    budgetUpdate: {
+        required: [],
+        validate: (data: any) => {
+            if (data.category === undefined && data.limit === undefined) {
+                throw new AppError("At least one of category or limit is required", 400);
+            }
+            validateBudget(data);
+        },
+    },
+
+    exchangeRateImport: {
+        required: ["csv"],
+        validate: (data: any) => {
+            if (typeof data.csv !== "string" || data.csv.trim().length === 0) {
+                throw new AppError("Csv must be the non-empty contents of a currency,date,rate file", 400);
+            }
+        },
+    },
 };
 
+/**
+ * Shared field checks for user merchant aliases
+ */
+function validateMerchantAlias(data: any): void {
+    const { pattern, normalizedName, category } = data;
+    if (pattern !== undefined) {
+        if (!pattern || typeof pattern !== "string") {
+            throw new AppError("Pattern must be a non-empty string", 400);
+        }
+        if (pattern.length > ALIAS_PATTERN_MAX_LENGTH) {
+            throw new AppError(`Pattern must be at most ${ALIAS_PATTERN_MAX_LENGTH} characters`, 400);
+        }
+    }
+    if (normalizedName !== undefined && (!normalizedName || typeof normalizedName !== "string")) {
+        throw new AppError("Normalized name must be a non-empty string", 400);
+    }
+    if (category !== undefined && (!category || typeof category !== "string")) {
+        throw new AppError("Category must be a non-empty string", 400);
+    }
+}
+
+/**
+ * Category rule keywords: a bounded list of non-empty strings
+ * An empty keyword would match every transaction, and a non-string breaks text normalization
+ */
+function validateKeywords(keywords: unknown): void {
+    if (!Array.isArray(keywords) || keywords.length === 0 || keywords.length > RULE_MAX_KEYWORDS) {
+        throw new AppError(`Keywords must be an array of 1-${RULE_MAX_KEYWORDS} strings`, 400);
+    }
+    const valid = keywords.every((keyword) =>
+        typeof keyword === "string" && keyword.trim().length > 0 && keyword.length <= RULE_KEYWORD_MAX_LENGTH);
+    if (!valid) {
+        throw new AppError(`Each keyword must be a non-empty string of at most ${RULE_KEYWORD_MAX_LENGTH} characters`, 400);
+    }
+}
+
+/**
+ * Shared checks for a bank template body: known fields, compilable patterns and valid post-processing hints
+ * Whether the samples actually match is checked by the template service, which owns the parser
+ */
+function validateBankTemplate(data: any, requireSamples: boolean): void {
+    const { name, fields, samples, priority } = data;
+
+    if (name !== undefined && (typeof name !== "string" || name.trim().length === 0)) {
+        throw new AppError("Name must be a non-empty string if provided", 400);
+    }
+    if (priority !== undefined && (typeof priority !== "number" || priority < 0)) {
+        throw new AppError("Priority must be a non-negative number", 400);
+    }
+    if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+        throw new AppError("Fields must be an object of field name to pattern spec", 400);
+    }
+    if (!fields.amount) {
+        throw new AppError("Template must define an amount field", 400);
+    }
+
+    for (const [field, spec] of Object.entries<any>(fields)) {
+        if (!(TEMPLATE_FIELDS as string[]).includes(field)) {
+            throw new AppError(`Unknown template field '${field}'; expected one of ${TEMPLATE_FIELDS.join(", ")}`, 400);
+        }
+        if (!spec || typeof spec !== "object" || typeof spec.pattern !== "string" || spec.pattern.length === 0) {
+            throw new AppError(`Field ${field} must have a non-empty pattern string`, 400);
+        }
+        if (spec.flags !== undefined && (typeof spec.flags !== "string" || !/^[imsu]*$/.test(spec.flags))) {
+            throw new AppError(`Field ${field} flags may only contain i, m, s and u`, 400);
+        }
+        if (spec.required !== undefined && typeof spec.required !== "boolean") {
+            throw new AppError(`Field ${field} required must be a boolean`, 400);
+        }
+        if (spec.amountSign !== undefined && (field !== "amount" || !["debit", "credit", "signed"].includes(spec.amountSign))) {
+            throw new AppError("AmountSign is only allowed on the amount field and must be debit, credit or signed", 400);
+        }
+        if (spec.dateFormat !== undefined && (field !== "date" || !["DMY", "MDY", "YMD"].includes(spec.dateFormat))) {
+            throw new AppError("DateFormat is only allowed on the date field and must be DMY, MDY or YMD", 400);
+        }
+        if (spec.calendar !== undefined && (field !== "date" || !["gregorian", "hijri"].includes(spec.calendar))) {
+            throw new AppError("Calendar is only allowed on the date field and must be gregorian or hijri", 400);
+        }
+
+        let groups: number;
+        try {
+            // Matching the empty alternative reveals how many capture groups the pattern has
+            groups = (new RegExp(`${spec.pattern}|`, spec.flags).exec("") || []).length - 1;
+        } catch (error) {
+            throw new AppError(`Field ${field} has an invalid regex pattern: ${(error as Error).message}`, 400);
+        }
+        const neededGroups = field === "amount" ? 2 : field === "device" || field === "islamic" ? 0 : 1;
+        if (groups < neededGroups) {
+            throw new AppError(field === "amount" ?
+                "The amount pattern must capture the amount (group 1) and the currency code (group 2)" :
+                `The ${field} pattern must have a capture group for the value`, 400);
+        }
+    }
+
+    if (samples !== undefined || requireSamples) {
+        if (!Array.isArray(samples) || samples.length === 0 || samples.length > TEMPLATE_MAX_SAMPLES) {
+            throw new AppError(`Samples must be an array of 1-${TEMPLATE_MAX_SAMPLES} example messages`, 400);
+        }
+        if (samples.some((sample: unknown) => typeof sample !== "string" || sample.trim().length === 0)) {
+            throw new AppError("Samples must be non-empty strings", 400);
+        }
+    }
+}
+
+/**
+ * Optional list of messages to run a template against
+ */
+function validateTestMessages(messages: unknown): void {
+    if (messages === undefined) {
+        return;
+    }
+    if (!Array.isArray(messages) || messages.length === 0 || messages.length > TEMPLATE_MAX_TEST_MESSAGES) {
+        throw new AppError(`Messages must be an array of 1-${TEMPLATE_MAX_TEST_MESSAGES} strings`, 400);
+    }
+    if (messages.some((message) => typeof message !== "string" || message.trim().length === 0)) {
+        throw new AppError("Messages must be non-empty strings", 400);
+    }
+}
+
+/**
+ * ISO 8601 timestamp validation helper, e.g. 2025-06-08T14:30:00+03:00
+ */
+function isValidTimestamp(value: unknown): boolean {
+    return typeof value === "string" &&
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) &&
+        !isNaN(Date.parse(value));
+}
+
+/**
+ * Validate the category and limit of a budget body, whichever are present
+ */
+function validateBudget(data: any): void {
+    const { category, limit } = data;
+    if (category !== undefined && (typeof category !== "string" || category.trim().length === 0)) {
+        throw new AppError("Category must be a non-empty string", 400);
+    }
+    if (limit !== undefined && (typeof limit !== "number" || !isFinite(limit) || limit <= 0)) {
+        throw new AppError("Limit must be a positive number", 400);
+    }
+}
+
+/**
+ * Client-supplied message ID validation helper
+ */
+function isValidClientId(clientId: unknown): boolean {
+    return typeof clientId === "string" && clientId.length > 0 && clientId.length <= 255;
+}
+
 /**
  * Email validation helper
  */
@@ -130,7 +596,7 @@ export function validateRequest(schemaName: keyof typeof schemas) {
  */
 export function validatePagination(req: Request, res: Response, next: NextFunction): void {
     try {
-        const { limit, offset } = req.query;
+        const { limit, offset, cursor } = req.query;
 
         if (limit !== undefined) {
             const limitNum = Number(limit);
@@ -140,11 +606,149 @@ export function validatePagination(req: Request, res: Response, next: NextFuncti
         }
 
         if (offset !== undefined) {
-            const offsetNum = Number(offset);
-            if (isNaN(offsetNum) || offsetNum < 0) {
-                throw new AppError("Offset must be a non-negative number", 400);
+            throw new AppError("Offset pagination is not supported; pass the previous page's nextCursor as cursor", 400);
+        }
+
+        if (cursor !== undefined && (typeof cursor !== "string" || !/^[A-Za-z0-9_-]+$/.test(cursor))) {
+            throw new AppError("Cursor must be a token returned as nextCursor", 400);
+        }
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * Validate filter and sort parameters for transaction listing
+ */
+export function validateTransactionQuery(req: Request, res: Response, next: NextFunction): void {
+    try {
+        const { dateFrom, dateTo, minAmount, maxAmount, isRecurring, sortBy, order, q, type, direction } = req.query;
+
+        for (const [name, value] of Object.entries({ dateFrom, dateTo })) {
+            if (value !== undefined && (typeof value !== "string" || !isValidIsoDate(value))) {
+                throw new AppError(`${name} must be a valid YYYY-MM-DD date`, 400);
             }
         }
+        if (dateFrom && dateTo && String(dateFrom) > String(dateTo)) {
+            throw new AppError("dateFrom must not be after dateTo", 400);
+        }
+
+        for (const [name, value] of Object.entries({ minAmount, maxAmount })) {
+            if (value !== undefined && (isNaN(Number(value)) || Number(value) < 0)) {
+                throw new AppError(`${name} must be a non-negative number`, 400);
+            }
+        }
+        if (minAmount !== undefined && maxAmount !== undefined && Number(minAmount) > Number(maxAmount)) {
+            throw new AppError("minAmount must not be greater than maxAmount", 400);
+        }
+
+        // Firestore needs the range field first in the sort; each sort field has its own indexes
+        const hasDateRange = dateFrom !== undefined || dateTo !== undefined;
+        const hasAmountRange = minAmount !== undefined || maxAmount !== undefined;
+        if (hasDateRange && hasAmountRange) {
+            throw new AppError("Filter by a date range or an amount range, not both", 400);
+        }
+        const rangeField = hasDateRange ? "date" : hasAmountRange ? "amount" : undefined;
+        if (rangeField && sortBy !== undefined && sortBy !== rangeField) {
+            throw new AppError(`sortBy must be ${rangeField} when filtering by a ${rangeField} range`, 400);
+        }
+
+        if (isRecurring !== undefined && isRecurring !== "true" && isRecurring !== "false") {
+            throw new AppError("isRecurring must be true or false", 400);
+        }
+        if (type !== undefined && !TRANSACTION_TYPE_RULES.some((rule) => rule.type === type)) {
+            throw new AppError(`type must be one of ${TRANSACTION_TYPE_RULES.map((rule) => rule.type).join(", ")}`, 400);
+        }
+        if (direction !== undefined && direction !== "debit" && direction !== "credit") {
+            throw new AppError("direction must be debit or credit", 400);
+        }
+        if (sortBy !== undefined && !["createdAt", "date", "amount"].includes(String(sortBy))) {
+            throw new AppError("sortBy must be one of createdAt, date, amount", 400);
+        }
+        if (order !== undefined && order !== "asc" && order !== "desc") {
+            throw new AppError("order must be asc or desc", 400);
+        }
+        if (q !== undefined && (typeof q !== "string" || q.trim().length < 2 || q.length > 100)) {
+            throw new AppError("q must be between 2 and 100 characters", 400);
+        }
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * Validate filter parameters for subscription listing
+ */
+export function validateSubscriptionQuery(req: Request, res: Response, next: NextFunction): void {
+    try {
+        const { status, includeDismissed } = req.query;
+
+        if (status !== undefined && !SUBSCRIPTION_STATUSES.some((value) => value === status)) {
+            throw new AppError(`status must be one of ${SUBSCRIPTION_STATUSES.join(", ")}`, 400);
+        }
+        if (includeDismissed !== undefined && includeDismissed !== "true" && includeDismissed !== "false") {
+            throw new AppError("includeDismissed must be true or false", 400);
+        }
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * Validate an optional month (YYYY-MM) query parameter
+ */
+export function validateMonthQuery(req: Request, res: Response, next: NextFunction): void {
+    try {
+        const { month } = req.query;
+
+        if (month !== undefined && (typeof month !== "string" || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month))) {
+            throw new AppError("month must be a YYYY-MM month", 400);
+        }
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * Validate grouping and date range parameters for spending analytics
+ */
+export function validateAnalyticsQuery(req: Request, res: Response, next: NextFunction): void {
+    try {
+        const { groupBy, dateFrom, dateTo, direction, inHomeCurrency } = req.query;
+
+        if (direction !== undefined && direction !== "debit" && direction !== "credit") {
+            throw new AppError("direction must be debit or credit", 400);
+        }
+
+        if (inHomeCurrency !== undefined && inHomeCurrency !== "true" && inHomeCurrency !== "false") {
+            throw new AppError("inHomeCurrency must be true or false", 400);
+        }
+
+        if (groupBy !== undefined && !["category", "merchant", "month", "week", "day"].includes(String(groupBy))) {
+            throw new AppError("groupBy must be one of category, merchant, month, week, day", 400);
+        }
+
+        for (const [name, value] of Object.entries({ dateFrom, dateTo })) {
+            if (value !== undefined && (typeof value !== "string" || !isValidIsoDate(value))) {
+                throw new AppError(`${name} must be a valid YYYY-MM-DD date`, 400);
+            }
+        }
+        // Check the range the analytics service will scan, which ends today (Asia/Riyadh) without a dateTo
+        const rangeTo = dateTo ? String(dateTo) : toLocalIsoDate();
+        if (dateFrom && String(dateFrom) > rangeTo) {
+            throw new AppError(dateTo ? "dateFrom must not be after dateTo" : "dateFrom must not be in the future", 400);
+        }
+        if (dateFrom && daysBetween(String(dateFrom), rangeTo) > ANALYTICS_MAX_RANGE_DAYS) {
+            throw new AppError(`Date range must not exceed ${ANALYTICS_MAX_RANGE_DAYS} days`, 400);
+        }
 
         next();
     } catch (error) {
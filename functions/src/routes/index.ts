@@ -1,8 +1,10 @@
 import * as express from "express";
 import transactions from "./transactions";
+import users from "./users";
 
 const router = express.Router();
 
 router.use("/transactions", transactions);
+router.use("/users", users);
 
 export default router;
\ No newline at end of file
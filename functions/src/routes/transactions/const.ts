@@ -1,11 +1,22 @@
-import { MerchantPattern, CategoryRule } from "./types";
+import {
+    BankPatternSet,
+    MerchantPattern,
+    CategoryRule,
+    DuplicateMode,
+    ExchangeRate,
+    ParsedField,
+    RecurrencePeriod,
+    SubscriptionStatus,
+    TemplateField,
+    TransactionTypeRule,
+} from "./types";
 
 /**
 * Bank-specific parsing patterns
-* Add new bank formats here
+* Built-in formats, seeded into the bank template store; register new formats through /templates
 */
 
-export const BANK_PATTERNS = {
+export const BANK_PATTERNS: Record<string, BankPatternSet> = {
     // Generic pattern that works for most Saudi banks
     generic: {
         description: /^([^\n]+)/,
@@ -13,14 +24,15 @@ export const BANK_PATTERNS = {
         merchant: /من\s+([^\n]+)/,
         card: /مدى\s*(\d+\*)/,
         account: /حساب\s*(\d+\*)/,
-        date: /في\s*(\d{2}-\d{2}-\d{1,2})/,
+        date: /في\s*(\d{1,2}-\d{1,2}-\d{1,4})/,
     },
 
     // Al Rajhi Bank (الراجحي) - Most popular bank in Saudi
     alrajhi: {
         description: /^([^\n]+)/,
         amount: /(?:قيمة|مبلغ|بقيمة)\s*([\d,\.]+)\s*([A-Z]{3})/,
-        merchant: /(?:من|لدى|عند)\s+([^\n]+)/,
+        // "من حساب 3301**" names the account a transfer leaves, not the other party
+        merchant: /(?:من|لدى|عند|إلى)\s+(?!(?:ال)?حساب)([^\n]+)/,
         card: /(?:بطاقة|كارت)\s*(\d+\*+)/,
         account: /(?:حساب|رقم الحساب)\s*(\d+\*+)/,
         date: /(?:بتاريخ|في|تاريخ)\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/,
@@ -44,7 +56,7 @@ export const BANK_PATTERNS = {
     riyad: {
         description: /^([^\n]+)/,
         amount: /(?:بمبلغ|المبلغ|قدره)\s*([\d,\.]+)\s*([A-Z]{3})/,
-        merchant: /(?:من|لصالح|إلى)\s+([^\n]+)/,
+        merchant: /(?:من|لصالح|إلى)\s+(?!(?:ال)?حساب)([^\n]+)/,
         card: /(?:بطاقة رقم|البطاقة)\s*(\d+\*+)/,
         account: /(?:من الحساب|الحساب)\s*(\d+\*+)/,
         date: /(?:بتاريخ|في يوم)\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/,
@@ -261,7 +273,8 @@ export const BANK_PATTERNS = {
     tamara: {
         description: /^([^\n]+)/,
         amount: /(?:بمبلغ|القيمة|مبلغ)\s*([\d,\.]+)\s*([A-Z]{3})/,
-        merchant: /(?:من|عند|لدى)\s+([^\n]+)/,
+        // Skips the "من 4" of "قسط 2 من 4"
+        merchant: /(?:من|عند|لدى)\s+(?!\d)([^\n]+)/,
         installment: /(?:قسط|دفعة)\s*(\d+)\s*من\s*(\d+)/,
         date: /(?:في|بتاريخ)\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/,
         reference: /(?:رقم الطلب|رقم المرجع)\s*([A-Z0-9]+)/,
@@ -278,9 +291,35 @@ export const BANK_PATTERNS = {
     },
 };
 
+/**
+ * SMS sender IDs of the banks and wallets with their own format
+ * A message from a known sender is parsed with that format rather than the best-scoring one.
+ * Compared case-insensitively, ignoring spaces and punctuation ("STC Pay" = "STCPay")
+ */
+export const BANK_SENDER_IDS: Record<string, string[]> = {
+    alrajhi: ["AlRajhiBank", "Rajhi"],
+    ncb: ["NCB", "AlAhli"],
+    riyad: ["RiyadBank", "Riyad"],
+    samba: ["SAMBA"],
+    snb: ["SNB-AlAhli", "SNB"],
+    saib: ["SAIB"],
+    bsf: ["BSF", "AlFransi"],
+    anb: ["ANB"],
+    sabb: ["SABB"],
+    aljazira: ["BAJ", "AlJazira"],
+    albilad: ["Albilad", "BankAlbilad"],
+    fab: ["FAB"],
+    stcpay: ["STCPay"],
+    mobilypay: ["MobilyPay"],
+    zainpay: ["ZainPay"],
+    alinma: ["alinma", "AlinmaBank"],
+    tamara: ["Tamara"],
+    tabby: ["Tabby"],
+};
+
 /**
 * Known merchant patterns for normalization
-* Add new merchant patterns here
+* Seed defaults for the merchantPatterns collection; manage live patterns through /merchants
 */
 export const MERCHANT_PATTERNS: MerchantPattern[] = [
     { pattern: /spotify\s*ab/i, normalizedName: "Spotify", category: "Subscriptions" },
@@ -294,7 +333,7 @@ export const MERCHANT_PATTERNS: MerchantPattern[] = [
 
 /**
 * Category classification rules - easily extensible
-* Add new keywords and categories here
+* Seed defaults for the categoryRules collection; manage live rules through /categories
 */
 export const CATEGORY_RULES: CategoryRule[] = [
     // Subscriptions & Digital Services
@@ -359,4 +398,194 @@ export const CATEGORY_RULES: CategoryRule[] = [
         category: "Banking & ATM",
         priority: 95,
     },
-];
\ No newline at end of file
+];
+
+/**
+* Limits on rules sent through the API: keywords per rule, characters per keyword and per alias pattern
+*/
+export const RULE_MAX_KEYWORDS = 50;
+export const RULE_KEYWORD_MAX_LENGTH = 100;
+export const ALIAS_PATTERN_MAX_LENGTH = 200;
+
+/**
+* Fields of a stored transaction the user may edit through PATCH
+* rawText is deliberately absent so the original SMS is always preserved
+*/
+export const EDITABLE_FIELDS = ["description", "amount", "currency", "merchant", "date", "category", "note"] as const;
+
+/**
+* Free-text search indexes word prefixes from this length up to the capped word length
+*/
+export const SEARCH_PREFIX_MIN_LENGTH = 3;
+export const SEARCH_TOKEN_MAX_LENGTH = 15;
+
+/**
+* Transaction type detection - checked in order, so specific phrases come before generic ones
+* (e.g. "حوالة واردة" before "حوالة"). Anything unmatched is treated as a purchase
+*/
+export const TRANSACTION_TYPE_RULES: TransactionTypeRule[] = [
+    {
+        type: "refund",
+        direction: "credit",
+        keywords: ["استرداد", "مسترد", "إرجاع", "ارجاع", "عكس عملية", "refund", "reversal", "returned"],
+    },
+    {
+        type: "salary",
+        direction: "credit",
+        keywords: ["راتب", "رواتب", "salary", "payroll"],
+    },
+    {
+        type: "transfer_in",
+        direction: "credit",
+        keywords: ["حوالة واردة", "تحويل وارد", "حوالة محلية واردة", "حوالة دولية واردة", "استلام حوالة", "incoming transfer", "transfer received", "received transfer"],
+    },
+    {
+        type: "deposit",
+        direction: "credit",
+        keywords: ["إيداع", "ايداع", "deposit", "credited"],
+    },
+    {
+        type: "withdrawal",
+        direction: "debit",
+        keywords: ["سحب", "صراف", "atm", "withdrawal", "cash withdrawal"],
+    },
+    {
+        type: "transfer_out",
+        direction: "debit",
+        keywords: ["حوالة صادرة", "تحويل صادر", "حوالة", "تحويل", "outgoing transfer", "transfer sent", "transfer"],
+    },
+    {
+        type: "bill_payment",
+        direction: "debit",
+        keywords: ["سداد", "فاتورة", "bill payment", "sadad"],
+    },
+    {
+        type: "fee",
+        direction: "debit",
+        keywords: ["رسوم", "عمولة", "fee", "charge"],
+    },
+    {
+        type: "purchase",
+        direction: "debit",
+        keywords: ["شراء", "مشتريات", "نقاط البيع", "purchase", "pos"],
+    },
+];
+
+/**
+* Weight of each core field in a parse's overall confidence (sums to 1)
+* Amount, date and merchant are what make a transaction usable, so they count most
+*/
+export const FIELD_CONFIDENCE_WEIGHTS: Record<ParsedField, number> = {
+    amount: 0.35,
+    date: 0.2,
+    merchant: 0.2,
+    currency: 0.1,
+    account: 0.1,
+    description: 0.05,
+};
+
+/**
+* Fields that must be matched by the bank format for a strict parse to succeed
+*/
+export const STRICT_REQUIRED_FIELDS: ParsedField[] = ["amount", "currency", "date"];
+
+/**
+* Time zone SMS dates and "today" are interpreted in
+*/
+export const LOCAL_TIME_ZONE = "Asia/Riyadh";
+
+/**
+* Fields a bank template may define; amount is mandatory
+* Fields without a capture group use the whole match (device) or only record presence (islamic)
+*/
+export const TEMPLATE_FIELDS: TemplateField[] = [
+    "description", "amount", "merchant", "card", "account", "date",
+    "reference", "terminal", "time", "branch", "channel", "approval", "location",
+    "type", "balance", "device", "islamic", "installment",
+];
+export const TEMPLATE_MAX_SAMPLES = 20;
+export const TEMPLATE_MAX_TEST_MESSAGES = 50;
+
+/**
+* Currency every exchange rate is quoted against: a rate is the value of one unit in SAR
+*/
+export const FX_BASE_CURRENCY = "SAR";
+
+/**
+* Home currency of users who have not chosen one
+*/
+export const DEFAULT_HOME_CURRENCY = "SAR";
+
+/**
+* Seed rows for the exchangeRates table; keep them current through /exchange-rates
+* SAR is pegged to USD at 3.75, the other GCC pegs follow from theirs
+*/
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+    { currency: "USD", date: "2025-01-01", rate: 3.75 },
+    { currency: "AED", date: "2025-01-01", rate: 1.0211 },
+    { currency: "BHD", date: "2025-01-01", rate: 9.9734 },
+    { currency: "KWD", date: "2025-01-01", rate: 12.1655 },
+    { currency: "OMR", date: "2025-01-01", rate: 9.7403 },
+    { currency: "QAR", date: "2025-01-01", rate: 1.0302 },
+    { currency: "EUR", date: "2025-01-01", rate: 3.8906 },
+    { currency: "GBP", date: "2025-01-01", rate: 4.6988 },
+    { currency: "EGP", date: "2025-01-01", rate: 0.0738 },
+    { currency: "JOD", date: "2025-01-01", rate: 5.2891 },
+    { currency: "INR", date: "2025-01-01", rate: 0.0438 },
+    { currency: "PKR", date: "2025-01-01", rate: 0.0135 },
+];
+export const EXCHANGE_RATES_MAX_ROWS = 1000;
+
+/**
+* Transactions this many days apart can still be duplicates (bank SMS vs. a wallet SMS sent after midnight)
+*/
+export const DUPLICATE_WINDOW_DAYS = 1;
+export const DUPLICATE_MODES: DuplicateMode[] = ["skip", "merge", "force"];
+
+/**
+* Days between two payments of a recurring series, per period; the monthly range covers 28-31 day months
+* and every range allows a few days of drift for payments posted after a weekend or holiday
+*/
+export const RECURRENCE_INTERVAL_DAYS: Record<RecurrencePeriod, { min: number; max: number }> = {
+    daily: { min: 1, max: 1 },
+    weekly: { min: 6, max: 8 },
+    monthly: { min: 26, max: 34 },
+    yearly: { min: 358, max: 373 },
+};
+export const RECURRENCE_MIN_OCCURRENCES = 3; // This transaction and two earlier ones
+export const RECURRENCE_AMOUNT_TOLERANCE = 0.1; // Payments may differ from this one by up to 10%
+export const RECURRENCE_HISTORY_LIMIT = 50; // Most recent stored transactions per merchant considered
+
+/**
+* Days past the expected date before a subscription's charge counts as missed; after
+* SUBSCRIPTION_CANCELLED_AFTER_MISSED missed periods in a row it counts as cancelled
+*/
+export const SUBSCRIPTION_GRACE_DAYS: Record<RecurrencePeriod, number> = {
+    daily: 1,
+    weekly: 2,
+    monthly: 5,
+    yearly: 14,
+};
+export const SUBSCRIPTION_CANCELLED_AFTER_MISSED = 2;
+export const SUBSCRIPTION_PRICE_CHANGE_TOLERANCE = 0.01; // A charge more than 1% off the last one is a price change
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ["active", "missed", "cancelled"];
+
+/**
+* Longest span in days between the start and end of an analytics range, so one request scans at most a year
+*/
+export const ANALYTICS_MAX_RANGE_DAYS = 366;
+
+/**
+* Percentages of a monthly budget that notify the user when spending first reaches them
+*/
+export const BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+/**
+* How long a processed transaction event is remembered; Cloud Functions retries an event for up to 7 days
+*/
+export const SUMMARY_EVENT_TTL_DAYS = 7;
+
+/**
+* How long a replayed Idempotency-Key returns the original response
+*/
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
@@ -0,0 +1,270 @@
+import { AppError } from "../../middleware/error-handler";
+import { LOCAL_TIME_ZONE } from "./const";
+import { RecurrencePeriod } from "./types";
+
+const DAY_FIRST_PATTERN = /^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{1,4})$/;
+const YEAR_FIRST_PATTERN = /^(\d{1,4})[/\-.](\d{1,2})[/\-.](\d{1,2})$/;
+const HIJRI_MARKER = /^\s*(?:هـ|ه(?![\u0600-\u06FF])|AH\b)/;
+
+// Four-digit years in this range can only be Hijri (1446 AH = 2024/25)
+const HIJRI_YEAR_MIN = 1300;
+const HIJRI_YEAR_MAX = 1600;
+
+/**
+ * Thrown when a captured date is malformed or does not exist on the calendar, e.g. 31-02-2025
+ */
+export class InvalidDateError extends AppError {
+    /**
+     * Build a 400 naming the offending text
+     */
+    constructor(dateStr: string, reason: string) {
+        super(`Invalid date '${dateStr}': ${reason}`, 400);
+    }
+}
+
+/**
+ * What the parser knows about the message a date came from
+ */
+export interface DateContext {
+    receivedAt?: Date; // When the SMS arrived; anchors year inference. Defaults to now
+    hijri?: boolean; // The text marked the date as Hijri (هـ)
+    format?: "DMY" | "MDY" | "YMD"; // Order of the parts; DMY unless the date starts with a 4-digit year
+}
+
+interface CalendarDate {
+    year: number;
+    month: number;
+    day: number;
+}
+
+/**
+ * Normalize a captured SMS date to YYYY-MM-DD (Gregorian)
+ * Accepts D/M/Y with slashes, dashes or dots and 1-4 digit years, plus YYYY-MM-DD or an explicit part order.
+ * Hijri dates, marked with هـ or given with a 13xx/14xx/15xx year, are converted.
+ * Without a date the receipt day in Asia/Riyadh is used.
+ */
+export function normalizeDate(dateStr: string | undefined, context: DateContext = {}): string {
+    const receivedAt = context.receivedAt || new Date();
+    if (!dateStr) {
+        return toLocalIsoDate(receivedAt);
+    }
+
+    const trimmed = dateStr.trim();
+    const format = context.format || (/^\d{4}[/\-.]/.test(trimmed) ? "YMD" : "DMY");
+    const match = trimmed.match(format === "YMD" ? YEAR_FIRST_PATTERN : DAY_FIRST_PATTERN);
+    if (!match) {
+        throw new InvalidDateError(dateStr, "unrecognized format");
+    }
+
+    const [, first, second, third] = match;
+    const [dayDigits, monthDigits, yearDigits] =
+        format === "YMD" ? [third, second, first] :
+            format === "MDY" ? [second, first, third] :
+                [first, second, third];
+    const day = Number(dayDigits);
+    const month = Number(monthDigits);
+
+    const explicitYear = yearDigits.length === 4 ? Number(yearDigits) : undefined;
+    const hijri = context.hijri ||
+        (explicitYear !== undefined && explicitYear >= HIJRI_YEAR_MIN && explicitYear < HIJRI_YEAR_MAX);
+
+    // Year inference works in the date's own calendar
+    const received = hijri ? calendarParts(receivedAt, "islamic-umalqura") : calendarParts(receivedAt, "gregory");
+    const year = explicitYear ?? inferYear(yearDigits, received, month, day);
+
+    if (month < 1 || month > 12) {
+        throw new InvalidDateError(dateStr, `month ${month} does not exist`);
+    }
+
+    if (hijri) {
+        return hijriToGregorian({ year, month, day }, dateStr);
+    }
+
+    if (day < 1 || day > daysInMonth(year, month)) {
+        throw new InvalidDateError(dateStr, `day ${day} does not exist in ${year}-${pad(month)}`);
+    }
+    return formatIsoDate({ year, month, day });
+}
+
+/**
+ * Whether the text marks the captured date as Hijri, e.g. "في 12-05-1446هـ"
+ */
+export function hasHijriMarker(text: string, dateStr?: string): boolean {
+    if (!dateStr) return false;
+    const index = text.indexOf(dateStr);
+    return index !== -1 && HIJRI_MARKER.test(text.slice(index + dateStr.length));
+}
+
+/**
+ * The calendar day (YYYY-MM-DD) of an instant in Asia/Riyadh
+ */
+export function toLocalIsoDate(date: Date = new Date()): string {
+    return formatIsoDate(calendarParts(date, "gregory"));
+}
+
+/**
+ * The YYYY-MM-DD date one period after another
+ * Monthly and yearly steps keep the day of the month, clamped to the target month's length (Jan 31 -> Feb 28)
+ */
+export function addPeriod(date: string, period: RecurrencePeriod, count = 1): string {
+    const [year, month, day] = date.split("-").map(Number);
+    if (period === "daily" || period === "weekly") {
+        return addDays(date, (period === "daily" ? 1 : 7) * count);
+    }
+
+    const months = (period === "monthly" ? 1 : 12) * count;
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const targetYear = target.getUTCFullYear();
+    const targetMonth = target.getUTCMonth() + 1;
+    return formatIsoDate({ year: targetYear, month: targetMonth, day: Math.min(day, daysInMonth(targetYear, targetMonth)) });
+}
+
+/**
+ * YYYY-MM-DD validation helper that also rejects impossible dates such as 2024-02-30
+ */
+export function isValidIsoDate(date: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return false;
+    }
+    const parsed = parseIsoDate(date);
+    return !isNaN(parsed.getTime()) && toIsoDate(parsed) === date;
+}
+
+/**
+ * Parse YYYY-MM-DD as midnight UTC
+ */
+export function parseIsoDate(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Format the UTC calendar day of a date as YYYY-MM-DD
+ */
+export function toIsoDate(date: Date): string {
+    return date.toISOString().split("T")[0];
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+    const [year, month, day] = date.split("-").map(Number);
+    return toIsoDate(new Date(Date.UTC(year, month - 1, day + days)));
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Expand a short year using the day the message was received
+ * Two digits are the end of the year (25 -> 2025), taking the century nearest the receipt year.
+ * One or three digits are usually a year cut off by SMS truncation ("2" of "25", "202" of "2025"),
+ * so they are read as leading digits when that covers the receipt year, and as the last digits otherwise.
+ * Either way the latest such year that does not put the date after receipt wins.
+ */
+function inferYear(digits: string, received: CalendarDate, month: number, day: number): number {
+    const value = Number(digits);
+    const century = Math.floor(received.year / 100) * 100;
+
+    if (digits.length === 2) {
+        const candidates = [century - 100, century, century + 100].map((base) => base + value);
+        return candidates.reduce((best, year) =>
+            Math.abs(year - received.year) < Math.abs(best - received.year) ? year : best);
+    }
+
+    const isAfterReceipt = month > received.month || (month === received.month && day > received.day);
+
+    const low = digits.length === 1 ? century + value * 10 : value * 10;
+    if (received.year >= low && received.year <= low + 9) {
+        return isAfterReceipt && received.year > low ? received.year - 1 : received.year;
+    }
+
+    const modulus = Math.pow(10, digits.length);
+    let year = received.year - ((received.year - value) % modulus + modulus) % modulus;
+    if (year === received.year && isAfterReceipt) {
+        year -= modulus;
+    }
+    return year;
+}
+
+/**
+ * Convert an Umm al-Qura Hijri date to Gregorian YYYY-MM-DD
+ * The arithmetic (tabular) calendar gives an estimate within a couple of days, which is then
+ * corrected against ICU's Umm al-Qura calendar; a day ICU never produces does not exist
+ */
+function hijriToGregorian(hijri: CalendarDate, dateStr: string): string {
+    if (hijri.day < 1 || hijri.day > 30) {
+        throw new InvalidDateError(dateStr, `day ${hijri.day} does not exist in a Hijri month`);
+    }
+
+    const estimate = tabularHijriToDate(hijri);
+    if (!supportsUmmAlQura()) {
+        return formatIsoDate(calendarParts(estimate, "gregory", "UTC"));
+    }
+
+    for (const offset of [0, -1, 1, -2, 2, -3, 3]) {
+        const candidate = new Date(estimate.getTime() + offset * 24 * 60 * 60 * 1000);
+        const parts = calendarParts(candidate, "islamic-umalqura", "UTC");
+        if (parts.year === hijri.year && parts.month === hijri.month && parts.day === hijri.day) {
+            return formatIsoDate(calendarParts(candidate, "gregory", "UTC"));
+        }
+    }
+
+    throw new InvalidDateError(dateStr, `day ${hijri.day} does not exist in Hijri month ${hijri.month}/${hijri.year}`);
+}
+
+/**
+ * Midnight UTC of a Hijri date in the 30-year-cycle arithmetic calendar
+ */
+function tabularHijriToDate({ year, month, day }: CalendarDate): Date {
+    const julianDay = day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 +
+        Math.floor((3 + 11 * year) / 30) + 1948439.5 - 1;
+    return new Date(Math.round((julianDay - 2440587.5) * 24 * 60 * 60 * 1000));
+}
+
+/**
+ * Whether this runtime's ICU data includes the Umm al-Qura calendar
+ */
+function supportsUmmAlQura(): boolean {
+    return new Intl.DateTimeFormat("en-u-ca-islamic-umalqura").resolvedOptions().calendar === "islamic-umalqura";
+}
+
+/**
+ * Year, month and day of an instant in the given calendar and time zone
+ */
+function calendarParts(date: Date, calendar: string, timeZone: string = LOCAL_TIME_ZONE): CalendarDate {
+    const parts = new Intl.DateTimeFormat(`en-u-ca-${calendar}`, {
+        timeZone,
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+    }).formatToParts(date);
+
+    const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    return { year: value("year"), month: value("month"), day: value("day") };
+}
+
+/**
+ * Days in a Gregorian month
+ */
+export function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Format as YYYY-MM-DD
+ */
+function formatIsoDate({ year, month, day }: CalendarDate): string {
+    return `${String(year).padStart(4, "0")}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Zero-pad to two digits
+ */
+function pad(value: number): string {
+    return String(value).padStart(2, "0");
+}
@@ -1,16 +1,94 @@
 import express, { Request, Response } from "express";
-import { TransactionService } from "../../services";
-import { validateRequest, validatePagination } from "../../middleware/validation";
-import { asyncHandler, notFoundHandler, errorHandler } from "../../middleware/error-handler";
-import { sendSuccess, sendCreated, sendPaginated } from "../../utils/response";
-import { parseTransaction } from "./utils";
-import { CATEGORY_RULES, MERCHANT_PATTERNS } from "./const";
+import {
+    TransactionService,
+    UserService,
+    RuleService,
+    UserRuleService,
+    InboxService,
+    TemplateService,
+    FxService,
+    SubscriptionService,
+} from "../../services";
+import {
+    validateRequest,
+    validatePagination,
+    validateSubscriptionQuery,
+    validateTransactionQuery,
+} from "../../middleware/validation";
+import { authenticate, authorizeUser, requireAdmin, resolveActingUserId } from "../../middleware/auth";
+import { idempotent } from "../../middleware/idempotency";
+import { AppError, asyncHandler, notFoundHandler, errorHandler } from "../../middleware/error-handler";
+import { sendSuccess, sendCreated, sendPaginated, sendError } from "../../utils/response";
+import {
+    compileBankTemplate,
+    detectRecurrenceWithHistory,
+    parseTransaction,
+    testBankTemplate,
+    UnparseableTransactionError,
+} from "./utils";
+import {
+    BatchParseResult,
+    ExchangeRate,
+    ParsedTransaction,
+    RuleSet,
+    StoreResult,
+    Subscription,
+    SubscriptionStatus,
+    TransactionQueryOptions,
+} from "./types";
 
 
 const app = express.Router();
 
 // Initialize services
 const transactionService = new TransactionService();
+const userService = new UserService();
+const ruleService = new RuleService();
+const userRuleService = new UserRuleService();
+const inboxService = new InboxService();
+const templateService = new TemplateService();
+const fxService = new FxService();
+const subscriptionService = new SubscriptionService();
+
+/**
+ * Global rules and bank templates, with the user's custom rules layered on top when a user is known
+ */
+async function loadRuleSet(userId?: string): Promise<RuleSet> {
+    const [ruleSet, templates] = await Promise.all([
+        ruleService.getRuleSet(),
+        templateService.getCompiledTemplates(),
+    ]);
+    if (!userId) {
+        return { ...ruleSet, templates };
+    }
+    return { ...ruleSet, templates, userRules: await userRuleService.getUserRuleSet(userId) };
+}
+
+/**
+ * Follow-up for a parsed transaction after it went through storage, shared by every route that stores messages
+ * A newly created transaction is linked into a recurring series from the user's history (`parsed` is updated to
+ * match), and created or merged ones are recorded against the user's subscriptions. Returns the subscription charged.
+ */
+async function afterStore(userId: string, parsed: ParsedTransaction, storage: StoreResult): Promise<Subscription | undefined> {
+    if (storage.status === "created") {
+        parsed.recurrence = await transactionService.linkRecurrence(userId, storage.id, parsed);
+    }
+    if (storage.status === "created" || storage.status === "merged") {
+        return subscriptionService.recordCharge(userId, storage.id, parsed);
+    }
+    return undefined;
+}
+
+/**
+ * Strict mode from the request, falling back to the user's default setting
+ */
+async function resolveStrictMode(requested: boolean | undefined, userId?: string): Promise<boolean> {
+    if (!userId) {
+        return requested === true;
+    }
+    const userDefault = await userService.getStrictParsing(userId);
+    return requested ?? userDefault;
+}
 
 // ==================== API ROUTES ====================
 
@@ -34,20 +112,92 @@ app.get("/docs", asyncHandler(async (req: Request, res: Response) => {
         endpoints: {
             "GET /health": "Health check",
             "GET /docs": "API documentation",
-            "POST /user": "Create new user",
-            "POST /parse": "Parse single transaction",
-            "POST /parse/batch": "Parse multiple transactions",
+            "POST /users": "Create new user",
+            "GET /users/:userId": "Get user profile",
+            "PATCH /users/:userId": "Update user profile and settings (strictParsing)",
+            "DELETE /users/:userId": "Delete user and their transactions",
+            "GET /users/:userId/categories": "Get user's custom category rules and available categories",
+            "POST /users/:userId/categories": "Add a custom category rule",
+            "PATCH /users/:userId/categories/:ruleId": "Update a custom category rule",
+            "DELETE /users/:userId/categories/:ruleId": "Delete a custom category rule",
+            "GET /users/:userId/merchants": "Get user's merchant aliases",
+            "POST /users/:userId/merchants": "Add a merchant alias",
+            "PATCH /users/:userId/merchants/:aliasId": "Update a merchant alias",
+            "DELETE /users/:userId/merchants/:aliasId": "Delete a merchant alias",
+            "GET /users/:userId/learned-categories": "Get categories learned from corrections",
+            "GET /users/:userId/analytics": "Get spending totals by category, merchant, month, week or day (query: groupBy, dateFrom, dateTo, direction, inHomeCurrency)",
+            "DELETE /users/:userId/learned-categories/:feedbackId": "Forget a learned category",
+            "GET /users/:userId/summaries": "Get monthly totals by category, merchant and currency for spend and income (query: month=YYYY-MM)",
+            "POST /users/:userId/summaries/rebuild": "Recompute a user's monthly summaries from their stored transactions",
+            "GET /users/:userId/budgets": "Get monthly category budgets",
+            "GET /users/:userId/budgets/status": "Get spent, remaining and projected month-end spend per budget (query: month=YYYY-MM)",
+            "POST /users/:userId/budgets": "Set a monthly limit for a category in the home currency (category, limit)",
+            "GET /users/:userId/budgets/:budgetId": "Get a budget",
+            "PATCH /users/:userId/budgets/:budgetId": "Change a budget's category or limit",
+            "DELETE /users/:userId/budgets/:budgetId": "Delete a budget",
+            "GET /users/:userId/notifications": "Get notifications such as budget alerts at 80% and 100% (query: unread=true)",
+            "POST /users/:userId/notifications/:notificationId/read": "Mark a notification as read",
+            "POST /parse": "Parse single transaction (set explain: true for matched text spans, strict: true to reject messages without amount, currency or date, receivedAt to anchor short years, senderId to pick the bank format from the SMS sender, duplicates: skip|merge|force for messages matching a stored transaction, clientId to store a message at most once, historicalTransactions for recurrence when no user is given (a user's stored transactions are used otherwise); send an Idempotency-Key header to replay the first response on retry)",
+            "POST /parse/batch": "Parse multiple transactions (strict: true reports missing fields per message; senderId and duplicates apply to every message, clientIds gives one ID per message; honors the Idempotency-Key header)",
             "GET /categories": "Get available categories",
             "POST /categories": "Add new category rule",
+            "PUT /categories/order": "Reorder category rules by priority",
+            "GET /categories/:ruleId": "Get a category rule",
+            "PATCH /categories/:ruleId": "Update a category rule",
+            "DELETE /categories/:ruleId": "Delete a category rule",
             "GET /merchants": "Get merchant patterns",
             "POST /merchants": "Add new merchant pattern",
-            "GET /users/:userId/transactions": "Get user transaction history",
+            "PUT /merchants/order": "Reorder merchant patterns by priority",
+            "GET /merchants/:patternId": "Get a merchant pattern",
+            "PATCH /merchants/:patternId": "Update a merchant pattern",
+            "DELETE /merchants/:patternId": "Delete a merchant pattern",
+            "GET /templates": "Get bank templates in the order they are tried",
+            "POST /templates": "Register a bank template (fields: regex source, flags, required, amountSign/dateFormat/calendar hints; samples must parse)",
+            "POST /templates/test": "Test an unsaved template against messages or its samples",
+            "GET /templates/:templateId": "Get the current version of a bank template",
+            "PUT /templates/:templateId": "Replace a bank template as a new version",
+            "DELETE /templates/:templateId": "Delete a bank template",
+            "POST /templates/:templateId/test": "Test a stored template against messages or its samples",
+            "GET /templates/:templateId/versions": "Get a bank template's version history",
+            "GET /templates/:templateId/versions/:version": "Get one version of a bank template",
+            "GET /exchange-rates": "Get the local exchange-rate table (query: currency)",
+            "PUT /exchange-rates": "Add or replace exchange rates (rates: [{ currency, date, rate }], rate = value of one unit in SAR)",
+            "POST /exchange-rates/import": "Import exchange rates from a currency,date,rate CSV file's contents (csv)",
+            "DELETE /exchange-rates/:currency/:date": "Delete an exchange rate",
+            "GET /users/:userId/transactions": "Get user transaction history (filters: category, merchant, currency, bankFormat, type, direction, isRecurring, dateFrom, dateTo or minAmount, maxAmount, q; sortBy: createdAt|date|amount, and the range field when filtering by a range; order: asc|desc; paginate with limit and cursor)",
+            "GET /users/:userId/transactions/:transactionId": "Get a stored transaction",
+            "PATCH /users/:userId/transactions/:transactionId": "Edit a stored transaction",
+            "DELETE /users/:userId/transactions/:transactionId": "Delete a stored transaction",
+            "PUT /users/:userId/transactions/:transactionId/category": "Correct a transaction's category and learn from it",
+            "GET /users/:userId/inbox": "Get messages rejected by strict parsing",
+            "GET /users/:userId/inbox/:messageId": "Get a rejected message",
+            "POST /users/:userId/inbox/:messageId/retry": "Re-parse a rejected message with the current rules and store it on success",
+            "DELETE /users/:userId/inbox/:messageId": "Dismiss a rejected message",
+            "GET /users/:userId/subscriptions": "Get detected subscriptions and bills (filters: status active|missed|cancelled, includeDismissed)",
+            "GET /users/:userId/subscriptions/:subscriptionId": "Get a subscription",
+            "PATCH /users/:userId/subscriptions/:subscriptionId": "Rename a subscription (name)",
+            "POST /users/:userId/subscriptions/:subscriptionId/confirm": "Confirm a subscription and accept its flagged price change",
+            "POST /users/:userId/subscriptions/:subscriptionId/dismiss": "Hide a subscription that is not a recurring payment",
+        },
+        authentication: {
+            header: "Authorization: Bearer <Firebase ID token>",
+            public: ["GET /health", "GET /docs"],
+            adminOnly: [
+                "POST, PUT, PATCH, DELETE /categories",
+                "POST, PUT, PATCH, DELETE /merchants",
+                "POST, PUT, DELETE /templates (except POST /templates/:templateId/test)",
+                "PUT, POST, DELETE /exchange-rates",
+                "PUT /users/:userId/admin",
+                "POST /users/:userId/summaries/rebuild",
+            ],
         },
         example: {
             endpoint: "POST /parse",
             body: {
                 transaction: "شراء إنترنت\nبـ 21.99 SAR\nمن Spotify AB P3781C3C72\nمدى 3180*\nحساب 0165*\nفي08-06-2",
-                userId: "optional-user-id",
+                store: true,
+                receivedAt: "2025-06-08T14:30:00+03:00",
+                senderId: "AlRajhiBank",
             },
         },
     };
@@ -58,12 +208,14 @@ app.get("/docs", asyncHandler(async (req: Request, res: Response) => {
 /**
  * Get available categories
  */
-app.get("/categories", asyncHandler(async (req: Request, res: Response) => {
-    const categories = [...new Set(CATEGORY_RULES.map((rule) => rule.category))];
+app.get("/categories", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const rules = await ruleService.listCategoryRules();
+    const categories = [...new Set(rules.map((rule) => rule.category))];
 
     const data = {
         categories: categories.sort(),
-        rules: CATEGORY_RULES.map((rule) => ({
+        rules: rules.map((rule) => ({
+            id: rule.id,
             category: rule.category,
             priority: rule.priority,
             keywordCount: rule.keywords.length,
@@ -76,37 +228,106 @@ app.get("/categories", asyncHandler(async (req: Request, res: Response) => {
 /**
  * Add new category rule
  */
-app.post("/categories", validateRequest("categoryRule"), asyncHandler(async (req: Request, res: Response) => {
+app.post("/categories", authenticate, requireAdmin, validateRequest("categoryRule"), asyncHandler(async (req: Request, res: Response) => {
     const { keywords, category, priority = 50 } = req.body;
 
-    CATEGORY_RULES.push({ keywords, category, priority });
+    const rule = await ruleService.createCategoryRule({ keywords, category, priority });
 
-    sendCreated(res, { keywords, category, priority }, `Category rule for '${category}' added successfully`);
+    sendCreated(res, rule, `Category rule for '${category}' added successfully`);
+}));
+
+/**
+ * Reorder category rules by priority (first ID is checked first)
+ */
+app.put("/categories/order", authenticate, requireAdmin, validateRequest("ruleOrder"), asyncHandler(async (req: Request, res: Response) => {
+    const rules = await ruleService.reorderCategoryRules(req.body.ids);
+
+    sendSuccess(res, rules, "Category rules reordered successfully");
+}));
+
+/**
+ * Get a single category rule
+ */
+app.get("/categories/:ruleId", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const rule = await ruleService.getCategoryRule(req.params.ruleId);
+
+    sendSuccess(res, rule, "Category rule retrieved successfully");
+}));
+
+/**
+ * Update a category rule
+ */
+app.patch("/categories/:ruleId", authenticate, requireAdmin, validateRequest("categoryRuleUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { keywords, category, priority } = req.body;
+
+    const rule = await ruleService.updateCategoryRule(req.params.ruleId, { keywords, category, priority });
+
+    sendSuccess(res, rule, "Category rule updated successfully");
+}));
+
+/**
+ * Delete a category rule
+ */
+app.delete("/categories/:ruleId", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    await ruleService.deleteCategoryRule(req.params.ruleId);
+
+    sendSuccess(res, { id: req.params.ruleId }, "Category rule deleted successfully");
 }));
 
 /**
  * Parse single transaction
+ * In strict mode a message without a matched amount, currency or date is rejected with 422
+ * and, for a known user, filed in their unparsed inbox instead of the ledger.
+ * A stored message that duplicates an earlier transaction is skipped, merged or forced per `duplicates`;
+ * a message whose `clientId` was stored before is not stored again
  */
-app.post("/parse", validateRequest("transaction"), asyncHandler(async (req: Request, res: Response) => {
-    const { transaction, historicalTransactions, userId } = req.body;
+app.post("/parse", authenticate, validateRequest("transaction"), authorizeUser, idempotent, asyncHandler(async (req: Request, res: Response) => {
+    const { transaction, historicalTransactions, explain = false, senderId, duplicates = "skip", clientId } = req.body;
+    const receivedAt = req.body.receivedAt ? new Date(req.body.receivedAt) : undefined;
+    const userId = resolveActingUserId(req);
     const startTime = Date.now();
 
-    // Parse the transaction
-    const parsed = parseTransaction(transaction);
+    // Also confirms the user exists before anything is written under them
+    const strict = await resolveStrictMode(req.body.strict, userId);
+
+    // Parse the transaction against the current rule store and the user's own rules
+    const ruleSet = await loadRuleSet(userId);
+    let parsed: ParsedTransaction;
+    try {
+        parsed = parseTransaction(transaction, ruleSet, { explain, strict, receivedAt, senderId });
+    } catch (error) {
+        if (!(error instanceof UnparseableTransactionError)) {
+            throw error;
+        }
+        const [inboxMessage] = userId ?
+            await inboxService.addUnparsedMessages(userId, [{ rawText: transaction, error }]) :
+            [];
+        sendError(res, error.message, error.statusCode, "UNPARSEABLE_TRANSACTION", {
+            missingFields: error.missingFields,
+            bankFormat: error.bankFormat,
+            parseInfo: error.parseInfo,
+            ...(inboxMessage && { inboxId: inboxMessage.id }),
+        });
+        return;
+    }
 
-    // Optional advanced recurrence detection
-    if (historicalTransactions && Array.isArray(historicalTransactions)) {
-        // e.g., parsed.recurrence = detectRecurrenceWithHistory(parsed, historicalTransactions);
+    // Without a user, recurrence can come from history sent with the request
+    if (!userId && Array.isArray(historicalTransactions)) {
+        const { recurrence } = detectRecurrenceWithHistory(parsed, historicalTransactions);
+        if (recurrence.isRecurring) {
+            parsed.recurrence = recurrence;
+        }
     }
 
     // Optional Firestore storage
-    if (userId) {
-        await transactionService.storeTransaction(userId, parsed);
-    }
+    const storage = userId ? await transactionService.storeTransaction(userId, parsed, duplicates, clientId) : undefined;
+    const subscription = userId && storage ? await afterStore(userId, parsed, storage) : undefined;
 
     const processingTime = Date.now() - startTime;
     const result = {
         ...parsed,
+        ...(storage && { storage }),
+        ...(subscription && { subscription }),
         metadata: {
             version: "1.0.0",
             timestamp: new Date().toISOString(),
@@ -119,39 +340,66 @@ app.post("/parse", validateRequest("transaction"), asyncHandler(async (req: Requ
 
 /**
  * Parse multiple transactions (batch processing)
+ * Messages are checked for duplicates against stored transactions and each other,
+ * and `clientIds` give each message an ID that is only ever stored once
  */
-app.post("/parse/batch", validateRequest("batchTransaction"), asyncHandler(async (req: Request, res: Response) => {
-    const { transactions, userId } = req.body;
+app.post("/parse/batch", authenticate, validateRequest("batchTransaction"), authorizeUser, idempotent, asyncHandler(async (req: Request, res: Response) => {
+    const { transactions, senderId, duplicates = "skip", clientIds } = req.body;
+    const receivedAt = req.body.receivedAt ? new Date(req.body.receivedAt) : undefined;
+    const userId = resolveActingUserId(req);
     const startTime = Date.now();
 
-    const results = [];
+    // Also confirms the user exists before anything is written under them
+    const strict = await resolveStrictMode(req.body.strict, userId);
+
+    const ruleSet = await loadRuleSet(userId);
+    const results: BatchParseResult[] = [];
+    const rejected: Array<{ rawText: string; error: UnparseableTransactionError }> = [];
 
-    for (const transaction of transactions) {
+    for (const [index, transaction] of transactions.entries()) {
         try {
-            const parsed = parseTransaction(transaction);
+            const parsed = parseTransaction(transaction, ruleSet, { strict, receivedAt, senderId });
             results.push({
                 success: true,
                 data: parsed,
                 original: transaction,
+                ...(clientIds && { clientId: clientIds[index] }),
             });
         } catch (error) {
+            if (error instanceof UnparseableTransactionError) {
+                rejected.push({ rawText: transaction, error });
+            }
             results.push({
                 success: false,
                 error: (error as Error).message,
+                ...(error instanceof UnparseableTransactionError && { missingFields: error.missingFields }),
                 original: transaction,
+                ...(clientIds && { clientId: clientIds[index] }),
             });
         }
     }
 
-    // Store successful transactions if userId provided
+    // Store successful transactions if userId provided; strict rejections go to the unparsed inbox
     if (userId) {
-        const successfulTransactions = results
-            .filter((result) => result.success)
-            .map((result) => result.data)
-            .filter(data => data !== undefined);
-
-        if (successfulTransactions.length > 0) {
-            await transactionService.storeTransactionsBatch(userId, successfulTransactions);
+        const successful = results.filter((result): result is BatchParseResult & { data: ParsedTransaction } => result.success);
+
+        if (successful.length > 0) {
+            const stored = await transactionService.storeTransactionsBatch(
+                userId,
+                successful.map((result) => result.data),
+                duplicates,
+                successful.map((result) => result.clientId)
+            );
+            for (const [index, result] of successful.entries()) {
+                result.storage = stored[index];
+                const subscription = await afterStore(userId, result.data, stored[index]);
+                if (subscription) {
+                    result.subscription = subscription;
+                }
+            }
+        }
+        if (rejected.length > 0) {
+            await inboxService.addUnparsedMessages(userId, rejected);
         }
     }
 
@@ -164,6 +412,10 @@ app.post("/parse/batch", validateRequest("batchTransaction"), asyncHandler(async
             total: transactions.length,
             successful: successCount,
             failed: transactions.length - successCount,
+            ...(userId && {
+                duplicates: results.filter((result) => result.storage?.duplicate).length,
+                sentToInbox: rejected.length,
+            }),
         },
         metadata: {
             version: "1.0.0",
@@ -175,121 +427,463 @@ app.post("/parse/batch", validateRequest("batchTransaction"), asyncHandler(async
     sendSuccess(res, responseData, "Batch processing completed");
 }));
 
+/**
+ * Get merchant patterns
+ */
+app.get("/merchants", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const patterns = await ruleService.listMerchantPatterns();
+    const merchants = patterns.map((pattern) => ({
+        id: pattern.id,
+        normalizedName: pattern.normalizedName,
+        category: pattern.category,
+        pattern: pattern.pattern,
+        priority: pattern.priority,
+    }));
+
+    sendSuccess(res, merchants, "Merchant patterns retrieved successfully");
+}));
 
 /**
- * Parse multiple transactions (batch processing)
+ * Add new merchant pattern
  */
-app.post("/parse/batch", validateRequest("batchTransaction"), asyncHandler(async (req: Request, res: Response) => {
-    const { transactions, userId } = req.body;
-    const startTime = Date.now();
+app.post("/merchants", authenticate, requireAdmin, validateRequest("merchantPattern"), asyncHandler(async (req: Request, res: Response) => {
+    const { pattern, normalizedName, category, priority } = req.body;
 
-    const results = [];
+    const merchantPattern = await ruleService.createMerchantPattern({ pattern, normalizedName, category, priority });
 
-    for (const transaction of transactions) {
-        try {
-            const parsed = parseTransaction(transaction);
-            results.push({
-                success: true,
-                data: parsed,
-                original: transaction,
-            });
-        } catch (error) {
-            results.push({
-                success: false,
-                error: (error as Error).message,
-                original: transaction,
-            });
-        }
+    sendCreated(res, merchantPattern, `Merchant pattern for '${normalizedName}' added successfully`);
+}));
+
+/**
+ * Reorder merchant patterns (first ID is tried first)
+ */
+app.put("/merchants/order", authenticate, requireAdmin, validateRequest("ruleOrder"), asyncHandler(async (req: Request, res: Response) => {
+    const patterns = await ruleService.reorderMerchantPatterns(req.body.ids);
+
+    sendSuccess(res, patterns, "Merchant patterns reordered successfully");
+}));
+
+/**
+ * Get a single merchant pattern
+ */
+app.get("/merchants/:patternId", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const pattern = await ruleService.getMerchantPattern(req.params.patternId);
+
+    sendSuccess(res, pattern, "Merchant pattern retrieved successfully");
+}));
+
+/**
+ * Update a merchant pattern
+ */
+app.patch("/merchants/:patternId", authenticate, requireAdmin, validateRequest("merchantPatternUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { pattern, normalizedName, category, priority } = req.body;
+
+    const merchantPattern = await ruleService.updateMerchantPattern(req.params.patternId, { pattern, normalizedName, category, priority });
+
+    sendSuccess(res, merchantPattern, "Merchant pattern updated successfully");
+}));
+
+/**
+ * Delete a merchant pattern
+ */
+app.delete("/merchants/:patternId", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    await ruleService.deleteMerchantPattern(req.params.patternId);
+
+    sendSuccess(res, { id: req.params.patternId }, "Merchant pattern deleted successfully");
+}));
+
+/**
+ * Get bank templates in the order they are tried
+ */
+app.get("/templates", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const templates = await templateService.listTemplates();
+
+    sendSuccess(res, templates, "Bank templates retrieved successfully");
+}));
+
+/**
+ * Register a bank template (admin only)
+ * Rejected unless every sample message matches the template's required fields and amount
+ */
+app.post("/templates", authenticate, requireAdmin, validateRequest("bankTemplate"), asyncHandler(async (req: Request, res: Response) => {
+    const { id, name, fields, samples, priority } = req.body;
+
+    const template = await templateService.createTemplate(id, { name, fields, samples, priority });
+
+    sendCreated(res, template, `Bank template '${id}' registered successfully`);
+}));
+
+/**
+ * Try an unsaved template against messages, or against its own samples
+ * Admin only, since the patterns are arbitrary regular expressions run against the messages
+ */
+app.post("/templates/test", authenticate, requireAdmin, validateRequest("templateTest"), asyncHandler(async (req: Request, res: Response) => {
+    const { template, messages } = req.body;
+
+    const compiled = compileBankTemplate({ id: template.id || "test", fields: template.fields });
+    const results = testBankTemplate(compiled, messages || template.samples, await ruleService.getRuleSet());
+
+    sendSuccess(res, results, "Bank template tested successfully");
+}));
+
+/**
+ * Get the current version of a bank template
+ */
+app.get("/templates/:templateId", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const template = await templateService.getTemplate(req.params.templateId);
+
+    sendSuccess(res, template, "Bank template retrieved successfully");
+}));
+
+/**
+ * Replace a bank template's definition as a new version (admin only)
+ */
+app.put("/templates/:templateId", authenticate, requireAdmin, validateRequest("bankTemplateUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { name, fields, samples, priority } = req.body;
+
+    const template = await templateService.updateTemplate(req.params.templateId, { name, fields, samples, priority });
+
+    sendSuccess(res, template, `Bank template updated to version ${template.version}`);
+}));
+
+/**
+ * Delete a bank template and its version history (admin only)
+ */
+app.delete("/templates/:templateId", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    await templateService.deleteTemplate(req.params.templateId);
+
+    sendSuccess(res, { id: req.params.templateId }, "Bank template deleted successfully");
+}));
+
+/**
+ * Run a stored template against messages, defaulting to its samples
+ */
+app.post("/templates/:templateId/test", authenticate, validateRequest("templateMessages"), asyncHandler(async (req: Request, res: Response) => {
+    const template = await templateService.getTemplate(req.params.templateId);
+    const messages: string[] = req.body.messages || template.samples;
+    if (messages.length === 0) {
+        throw new AppError("Messages are required: this template has no samples", 400);
     }
 
-    // Store successful transactions if userId provided
-    if (userId) {
-        const successfulTransactions = results
-            .filter((result) => result.success)
-            .map((result) => result.data)
-            .filter(data => data !== undefined);
+    const results = testBankTemplate(compileBankTemplate(template), messages, await ruleService.getRuleSet());
 
-        if (successfulTransactions.length > 0) {
-            await transactionService.storeTransactionsBatch(userId, successfulTransactions);
-        }
+    sendSuccess(res, results, "Bank template tested successfully");
+}));
+
+/**
+ * Get every version of a bank template, newest first
+ */
+app.get("/templates/:templateId/versions", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const versions = await templateService.listTemplateVersions(req.params.templateId);
+
+    sendSuccess(res, versions, "Bank template versions retrieved successfully");
+}));
+
+/**
+ * Get one version of a bank template
+ */
+app.get("/templates/:templateId/versions/:version", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+        throw new AppError("Version must be a positive integer", 400);
     }
 
-    const processingTime = Date.now() - startTime;
-    const successCount = results.filter((r) => r.success).length;
+    const template = await templateService.getTemplateVersion(req.params.templateId, version);
 
-    const responseData = {
-        results,
-        summary: {
-            total: transactions.length,
-            successful: successCount,
-            failed: transactions.length - successCount,
-        },
-        metadata: {
-            version: "1.0.0",
-            timestamp: new Date().toISOString(),
-            processingTimeMs: processingTime,
-        },
-    };
+    sendSuccess(res, template, "Bank template version retrieved successfully");
+}));
 
-    sendSuccess(res, responseData, "Batch processing completed");
+/**
+ * Get the exchange-rate table, optionally for one currency (query: currency)
+ */
+app.get("/exchange-rates", authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const { currency } = req.query;
+    if (currency !== undefined && (typeof currency !== "string" || !/^[A-Z]{3}$/.test(currency))) {
+        throw new AppError("currency must be a 3-letter ISO code", 400);
+    }
+
+    const rates = await fxService.listRates(currency as string | undefined);
+
+    sendSuccess(res, rates, "Exchange rates retrieved successfully");
 }));
 
 /**
- * Get merchant patterns
+ * Add or replace exchange rates (admin only); each rate is the value of one unit in SAR from its date on
  */
-app.get("/merchants", asyncHandler(async (req: Request, res: Response) => {
-    const merchants = MERCHANT_PATTERNS.map((pattern) => ({
-        normalizedName: pattern.normalizedName,
-        category: pattern.category,
-        pattern: pattern.pattern.source,
-    }));
+app.put("/exchange-rates", authenticate, requireAdmin, validateRequest("exchangeRates"), asyncHandler(async (req: Request, res: Response) => {
+    const rates = await fxService.upsertRates(req.body.rates.map(({ currency, date, rate }: ExchangeRate) => ({ currency, date, rate })));
 
-    sendSuccess(res, merchants, "Merchant patterns retrieved successfully");
+    sendSuccess(res, rates, `${rates.length} exchange rate(s) saved successfully`);
 }));
 
 /**
- * Add new merchant pattern
+ * Import exchange rates from the contents of a currency,date,rate CSV file (admin only)
+ */
+app.post("/exchange-rates/import", authenticate, requireAdmin, validateRequest("exchangeRateImport"), asyncHandler(async (req: Request, res: Response) => {
+    const rates = await fxService.importCsv(req.body.csv);
+
+    sendSuccess(res, rates, `${rates.length} exchange rate(s) imported successfully`);
+}));
+
+/**
+ * Delete one exchange rate (admin only)
  */
-app.post("/merchants", validateRequest("merchantPattern"), asyncHandler(async (req: Request, res: Response) => {
-    const { pattern, normalizedName, category } = req.body;
+app.delete("/exchange-rates/:currency/:date", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const { currency, date } = req.params;
 
-    const regex = new RegExp(pattern, "i");
-    MERCHANT_PATTERNS.push({ pattern: regex, normalizedName, category });
+    await fxService.deleteRate(currency, date);
 
-    sendCreated(res, { pattern, normalizedName, category }, `Merchant pattern for '${normalizedName}' added successfully`);
+    sendSuccess(res, { currency, date }, "Exchange rate deleted successfully");
 }));
 
 /**
  * Get user's transaction history
  */
-app.get("/users/:userId/transactions", validatePagination, asyncHandler(async (req: Request, res: Response) => {
+app.get("/users/:userId/transactions", authenticate, authorizeUser, validatePagination, validateTransactionQuery, asyncHandler(async (req: Request, res: Response) => {
     const { userId } = req.params;
-    const { limit = 50, offset = 0, category } = req.query;
+    const {
+        limit = 50,
+        cursor,
+        category,
+        merchant,
+        currency,
+        bankFormat,
+        type,
+        direction,
+        isRecurring,
+        dateFrom,
+        dateTo,
+        minAmount,
+        maxAmount,
+        q,
+        sortBy,
+        order,
+    } = req.query;
+
+    await userService.assertUserExists(userId);
 
     const result = await transactionService.getUserTransactions(
         userId,
         {
             limit: Number(limit),
-            offset: Number(offset),
+            cursor: cursor as string | undefined,
             category: category as string | undefined,
+            merchant: merchant as string | undefined,
+            currency: currency as string | undefined,
+            bankFormat: bankFormat as string | undefined,
+            type: type as TransactionQueryOptions["type"],
+            direction: direction as TransactionQueryOptions["direction"],
+            isRecurring: isRecurring === undefined ? undefined : isRecurring === "true",
+            dateFrom: dateFrom as string | undefined,
+            dateTo: dateTo as string | undefined,
+            minAmount: minAmount === undefined ? undefined : Number(minAmount),
+            maxAmount: maxAmount === undefined ? undefined : Number(maxAmount),
+            search: q as string | undefined,
+            sortBy: sortBy as TransactionQueryOptions["sortBy"],
+            order: order as TransactionQueryOptions["order"],
         }
     );
 
-    // For a real implementation, you'd want to get the total count as well
-    const mockTotal = result.transactions.length + Number(offset);
-
     sendPaginated(
         res,
         result.transactions,
         {
-            limit: Number(limit),
-            offset: Number(offset),
-            total: mockTotal,
+            limit: result.pagination.limit,
+            total: result.pagination.total,
+            nextCursor: result.pagination.nextCursor,
         },
         "User transactions retrieved successfully"
     );
 }));
 
+/**
+ * Get a single stored transaction
+ */
+app.get("/users/:userId/transactions/:transactionId", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, transactionId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const transaction = await transactionService.getTransaction(userId, transactionId);
+
+    sendSuccess(res, transaction, "Transaction retrieved successfully");
+}));
+
+/**
+ * Edit a stored transaction, e.g. fix a misparsed amount or add a note
+ */
+app.patch("/users/:userId/transactions/:transactionId", authenticate, authorizeUser, validateRequest("transactionUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId, transactionId } = req.params;
+    const { description, amount, currency, merchant, date, category, note } = req.body;
+
+    await userService.assertUserExists(userId);
+    const transaction = await transactionService.updateTransaction(userId, transactionId, {
+        description: description?.trim(),
+        amount,
+        currency,
+        merchant: merchant?.trim(),
+        date,
+        category: category?.trim(),
+        note,
+    });
+
+    // A category edit is a correction the classifier should learn from
+    if (category !== undefined) {
+        await userRuleService.recordCategoryFeedback(userId, transaction.merchant, transaction.category);
+    }
+
+    sendSuccess(res, transaction, "Transaction updated successfully");
+}));
+
+/**
+ * Delete a stored transaction
+ */
+app.delete("/users/:userId/transactions/:transactionId", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, transactionId } = req.params;
+
+    await userService.assertUserExists(userId);
+    await transactionService.deleteTransaction(userId, transactionId);
+
+    sendSuccess(res, { id: transactionId }, "Transaction deleted successfully");
+}));
+
+/**
+ * Correct the category of a stored transaction
+ * The merchant -> category choice is remembered so the next transaction from that merchant is filed the same way
+ */
+app.put("/users/:userId/transactions/:transactionId/category", authenticate, authorizeUser, validateRequest("categoryCorrection"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId, transactionId } = req.params;
+    const category = req.body.category.trim();
+
+    await userService.assertUserExists(userId);
+    const transaction = await transactionService.updateTransactionCategory(userId, transactionId, category);
+    await userRuleService.recordCategoryFeedback(userId, transaction.merchant, category);
+
+    sendSuccess(res, transaction, "Transaction category corrected successfully");
+}));
+
+/**
+ * Get the messages strict parsing rejected for the user
+ */
+app.get("/users/:userId/inbox", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const messages = await inboxService.listUnparsedMessages(userId);
+
+    sendSuccess(res, messages, "Unparsed messages retrieved successfully");
+}));
+
+/**
+ * Get a single rejected message
+ */
+app.get("/users/:userId/inbox/:messageId", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, messageId } = req.params;
+
+    const message = await inboxService.getUnparsedMessage(userId, messageId);
+
+    sendSuccess(res, message, "Unparsed message retrieved successfully");
+}));
+
+/**
+ * Re-parse a rejected message strictly against the current rules
+ * On success the transaction is stored and the message leaves the inbox
+ */
+app.post("/users/:userId/inbox/:messageId/retry", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, messageId } = req.params;
+
+    const message = await inboxService.getUnparsedMessage(userId, messageId);
+    const ruleSet = await loadRuleSet(userId);
+    // The inbox entry was written when the message came in, so it anchors year inference
+    const parsed = parseTransaction(message.rawText, ruleSet, {
+        strict: true,
+        receivedAt: message.createdAt?.toDate(),
+        senderId: message.parseInfo?.senderId,
+    });
+
+    // A message that turns out to duplicate a stored transaction is accounted for, so it leaves the inbox too
+    const storage = await transactionService.storeTransaction(userId, parsed);
+    const subscription = await afterStore(userId, parsed, storage);
+    await inboxService.deleteUnparsedMessage(userId, messageId);
+
+    const result = { id: storage.id, ...parsed, storage, ...(subscription && { subscription }) };
+    if (storage.status === "created") {
+        sendCreated(res, result, "Message parsed and stored successfully");
+    } else {
+        sendSuccess(res, result, "Message parsed; it duplicates a stored transaction");
+    }
+}));
+
+/**
+ * Dismiss a rejected message
+ */
+app.delete("/users/:userId/inbox/:messageId", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, messageId } = req.params;
+
+    await inboxService.deleteUnparsedMessage(userId, messageId);
+
+    sendSuccess(res, { id: messageId }, "Unparsed message deleted successfully");
+}));
+
+/**
+ * Get the user's detected subscriptions and bills, by next expected charge
+ */
+app.get("/users/:userId/subscriptions", authenticate, authorizeUser, validateSubscriptionQuery, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const { status, includeDismissed } = req.query;
+
+    await userService.assertUserExists(userId);
+    const subscriptions = await subscriptionService.listSubscriptions(userId, {
+        status: status as SubscriptionStatus | undefined,
+        includeDismissed: includeDismissed === "true",
+    });
+
+    sendSuccess(res, subscriptions, "Subscriptions retrieved successfully");
+}));
+
+/**
+ * Get a single subscription
+ */
+app.get("/users/:userId/subscriptions/:subscriptionId", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, subscriptionId } = req.params;
+
+    const subscription = await subscriptionService.getSubscription(userId, subscriptionId);
+
+    sendSuccess(res, subscription, "Subscription retrieved successfully");
+}));
+
+/**
+ * Rename a subscription
+ */
+app.patch("/users/:userId/subscriptions/:subscriptionId", authenticate, authorizeUser, validateRequest("subscriptionUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId, subscriptionId } = req.params;
+
+    const subscription = await subscriptionService.renameSubscription(userId, subscriptionId, req.body.name);
+
+    sendSuccess(res, subscription, "Subscription updated successfully");
+}));
+
+/**
+ * Confirm a subscription, clearing any flagged price change
+ */
+app.post("/users/:userId/subscriptions/:subscriptionId/confirm", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, subscriptionId } = req.params;
+
+    const subscription = await subscriptionService.confirmSubscription(userId, subscriptionId);
+
+    sendSuccess(res, subscription, "Subscription confirmed successfully");
+}));
+
+/**
+ * Dismiss a detected subscription that is not a recurring payment
+ */
+app.post("/users/:userId/subscriptions/:subscriptionId/dismiss", authenticate, authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, subscriptionId } = req.params;
+
+    const subscription = await subscriptionService.dismissSubscription(userId, subscriptionId);
+
+    sendSuccess(res, subscription, "Subscription dismissed successfully");
+}));
+
 // Apply error handling middleware
 app.use(notFoundHandler);
 app.use(errorHandler);
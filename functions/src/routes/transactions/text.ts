@@ -0,0 +1,65 @@
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g; // ٠-٩
+const PERSIAN_DIGITS = /[\u06F0-\u06F9]/g; // ۰-۹
+const ARABIC_DECIMAL_SEPARATOR = /\u066B/g; // ٫
+const ARABIC_THOUSANDS_SEPARATOR = /\u066C/g; // ٬
+const ALEF_VARIANTS = /[\u0622\u0623\u0625\u0671]/g; // آ أ إ ٱ
+const YAA_VARIANTS = /[\u0649\u06CC]/g; // ى ی
+const TAA_MARBUTA = /\u0629/g; // ة
+const TATWEEL = /\u0640/g;
+// LRM/RLM, ALM, zero-width space/joiners, bidi embeddings and isolates, BOM
+const INVISIBLE_MARKS = /[\u200B-\u200F\u061C\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+const NO_BREAK_SPACES = /[\u00A0\u202F]/g;
+
+/**
+ * Normalize SMS text before pattern matching
+ * Cleans the text (see cleanText) and unifies alef/yaa/taa marbuta spellings.
+ * Apply the same normalization to anything matched against the result (patterns, keywords).
+ */
+export function normalizeText(text: string): string {
+    return foldLetters(cleanText(text));
+}
+
+/**
+ * Clean SMS text without changing how words are spelled, for values shown to the user
+ * Folds Arabic-Indic and Persian digits to ASCII, maps the Arabic decimal and thousands separators
+ * to "." and ",", and strips tatweel and invisible direction marks.
+ */
+export function cleanText(text: string): string {
+    return text
+        .replace(ARABIC_INDIC_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x0660))
+        .replace(PERSIAN_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x06F0))
+        .replace(ARABIC_DECIMAL_SEPARATOR, ".")
+        .replace(ARABIC_THOUSANDS_SEPARATOR, ",")
+        .replace(TATWEEL, "")
+        .replace(INVISIBLE_MARKS, "")
+        .replace(NO_BREAK_SPACES, " ");
+}
+
+/**
+ * Unify alef, yaa and taa marbuta spellings
+ * Each letter maps to one letter, so positions in the result are positions in the input
+ */
+export function foldLetters(text: string): string {
+    return text
+        .replace(ALEF_VARIANTS, "ا")
+        .replace(YAA_VARIANTS, "ي")
+        .replace(TAA_MARBUTA, "ه");
+}
+
+/**
+ * Normalized copies of patterns, keyed by the original so each is only recompiled once
+ */
+const patternCache = new WeakMap<RegExp, RegExp>();
+
+/**
+ * Recompile a pattern so it matches normalized text
+ * Regex syntax is ASCII, so only the Arabic literals in the source change
+ */
+export function normalizePattern(pattern: RegExp): RegExp {
+    let normalized = patternCache.get(pattern);
+    if (!normalized) {
+        normalized = new RegExp(normalizeText(pattern.source), pattern.flags);
+        patternCache.set(pattern, normalized);
+    }
+    return normalized;
+}
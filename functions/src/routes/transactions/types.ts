@@ -1,3 +1,5 @@
+import { Timestamp } from "firebase-admin/firestore";
+
 export interface ParsedTransaction {
     description: string;
     amount: number;
@@ -5,16 +7,304 @@ export interface ParsedTransaction {
     merchant: string;
     accountMasked: string;
     date: string; // YYYY-MM-DD format
+    type: TransactionType;
+    direction: TransactionDirection;
     category: string;
-    recurrence: {
-        isRecurring: boolean;
-        period?: "daily" | "weekly" | "monthly" | "yearly";
-        confidence?: number; // 0-1 score for recurrence detection
-    };
+    categorySource?: CategorySource;
+    recurrence: TransactionRecurrence;
+    details: TransactionDetails;
+    parseInfo: ParseInfo;
     rawText: string;
     bankFormat?: string;
 }
 
+export type RecurrencePeriod = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface TransactionRecurrence {
+    isRecurring: boolean;
+    period?: RecurrencePeriod;
+    confidence?: number; // 0-1 score for recurrence detection
+    occurrences?: number; // Transactions found in the series, this one included
+    seriesId?: string; // Shared by the stored transactions of one recurring series
+}
+
+/**
+ * An earlier transaction considered for recurrence detection: a stored one (with its ID) or one sent by the client
+ */
+export interface RecurrenceCandidate {
+    id?: string;
+    merchant: string;
+    amount: number;
+    currency: string;
+    date: string; // YYYY-MM-DD
+    recurrence?: TransactionRecurrence;
+}
+
+/**
+ * Core fields whose origin is tracked by the parser
+ */
+export type ParsedField = "description" | "amount" | "currency" | "merchant" | "account" | "date";
+
+/**
+ * How a field's value was obtained:
+ * matched - captured by the bank format's regex
+ * fallback - recovered by a heuristic (first line, merchant indicator words)
+ * default - nothing found; a placeholder value was used
+ */
+export type FieldSource = "matched" | "fallback" | "default";
+
+export interface FieldProvenance {
+    source: FieldSource;
+    pattern?: string; // Regex source that matched, for "matched" fields
+}
+
+/**
+ * Span of the normalized SMS text a field was captured from (only returned with `explain`)
+ */
+export interface MatchSpan {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * How much to trust a parse and where each value came from
+ */
+export interface ParseInfo {
+    confidence: number; // 0-1 overall score
+    formatScore: number; // Match ratio of the selected bank format
+    fields: Record<ParsedField, FieldProvenance>;
+    runnerUps: Array<{ bankFormat: string; score: number }>;
+    detection: FormatDetection;
+    senderId?: string; // SMS sender ID given with the message
+    warnings: string[];
+    spans?: Partial<Record<ParsedField | keyof TransactionDetails, MatchSpan>>;
+    normalizedText?: string; // Text the spans index into: digits folded, marks stripped (only with `explain`)
+}
+
+/**
+ * How the bank format was chosen:
+ * sender - mapped from the SMS sender ID
+ * score - the format with the best match ratio
+ */
+export type FormatDetection = "sender" | "score";
+
+export interface ParseOptions {
+    explain?: boolean; // Include matched spans in parseInfo
+    strict?: boolean; // Throw instead of defaulting amount, currency or date
+    receivedAt?: Date; // When the SMS arrived; used to infer short years and as "today". Defaults to now
+    senderId?: string; // SMS sender ID, e.g. "AlRajhiBank"; a known sender fixes the bank format
+}
+
+/**
+ * Optional bank-specific fields captured from the SMS when the matched format defines them
+ */
+export interface TransactionDetails {
+    reference?: string;
+    terminal?: string;
+    time?: string; // HH:mm as printed in the SMS
+    timestamp?: string; // date + time in ISO 8601 with the Riyadh offset (+03:00)
+    installment?: {
+        number: number;
+        total?: number; // Only present when the SMS says "n of m"
+    };
+    branch?: string;
+    channel?: string;
+    approval?: string;
+    device?: string;
+    location?: string;
+    balance?: number;
+    operationType?: string; // Free-text operation name printed by the bank
+    islamic?: boolean;
+}
+
+/**
+ * Kind of movement an SMS describes
+ */
+export type TransactionType =
+    | "purchase"
+    | "refund"
+    | "transfer_in"
+    | "transfer_out"
+    | "salary"
+    | "deposit"
+    | "withdrawal"
+    | "bill_payment"
+    | "fee";
+
+/**
+ * Money leaving (debit) or entering (credit) the account; amount itself is always positive
+ */
+export type TransactionDirection = "debit" | "credit";
+
+export interface TransactionTypeRule {
+    type: TransactionType;
+    direction: TransactionDirection;
+    keywords: string[];
+}
+
+/**
+ * Where a transaction's category came from
+ */
+export type CategorySource =
+    | "merchant_alias" // User's merchant alias
+    | "learned" // Learned from the user's earlier corrections
+    | "user_rule" // User's custom keyword rule
+    | "rule" // Global keyword rule
+    | "merchant_pattern" // Global merchant pattern
+    | "default" // Nothing matched, filed under "Other"
+    | "user"; // Set by the user on a stored transaction
+
+/**
+ * User edits to a stored transaction; rawText is never editable
+ */
+export interface TransactionUpdate {
+    description?: string;
+    amount?: number;
+    currency?: string;
+    merchant?: string;
+    date?: string; // YYYY-MM-DD format
+    category?: string;
+    note?: string;
+}
+
+/**
+ * What to do with a parsed transaction that duplicates a stored one:
+ * skip - keep the stored transaction and write nothing
+ * merge - record the message on the stored transaction and fill in fields it is missing
+ * force - store it as a new transaction anyway
+ */
+export type DuplicateMode = "skip" | "merge" | "force";
+
+/**
+ * A stored transaction a new one was found to duplicate
+ */
+export interface DuplicateMatch {
+    transactionId: string;
+    match: "exact" | "fuzzy"; // exact - same message text; fuzzy - same amount and date plus merchant or account
+    matchedOn: string[];
+}
+
+/**
+ * Outcome of storing one parsed transaction
+ */
+export interface StoreResult {
+    id: string; // The new transaction, the one it duplicated, or the one stored earlier under its client ID
+    status: "created" | "skipped" | "merged" | "replayed";
+    duplicate?: DuplicateMatch;
+}
+
+/**
+ * Outcome of one message of a batch parse, with how it was stored when the batch is for a user
+ */
+export interface BatchParseResult {
+    success: boolean;
+    original: string; // The message as sent
+    clientId?: string;
+    data?: ParsedTransaction;
+    error?: string;
+    missingFields?: ParsedField[]; // Why strict parsing rejected the message
+    storage?: StoreResult;
+    subscription?: Subscription;
+}
+
+/**
+ * Filters and sorting for listing a user's stored transactions
+ */
+export interface TransactionQueryOptions {
+    limit?: number;
+    cursor?: string; // Opaque token from a previous page's pagination.nextCursor
+    category?: string;
+    merchant?: string;
+    currency?: string;
+    bankFormat?: string;
+    type?: TransactionType;
+    direction?: TransactionDirection;
+    isRecurring?: boolean;
+    dateFrom?: string; // YYYY-MM-DD, inclusive
+    dateTo?: string; // YYYY-MM-DD, inclusive
+    minAmount?: number;
+    maxAmount?: number;
+    search?: string; // Word or word prefix in description/merchant
+    sortBy?: "createdAt" | "date" | "amount"; // Defaults to the range field when filtering by a range, else createdAt
+    order?: "asc" | "desc";
+}
+
+export type AnalyticsGroupBy = "category" | "merchant" | "month" | "week" | "day";
+
+/**
+ * Spend total and transaction count keyed by currency code
+ */
+export type CurrencyTotals = Record<string, { total: number; count: number }>;
+
+export interface CurrencyDelta {
+    current: number;
+    previous: number;
+    change: number;
+    changePercent: number | null; // null when the previous period had no spend
+}
+
+export interface AnalyticsGroup {
+    key: string; // Category, merchant, YYYY-MM, YYYY-Www or YYYY-MM-DD
+    byCurrency: CurrencyTotals;
+    count: number;
+    delta: Record<string, CurrencyDelta>;
+}
+
+export interface SpendingSummary {
+    groupBy: AnalyticsGroupBy;
+    direction: TransactionDirection;
+    homeCurrency?: string; // Set when amounts were converted to the user's home currency
+    unconverted?: number; // Transactions in range left in their own currency for lack of an exchange rate
+    range: { dateFrom: string; dateTo: string };
+    previousRange: { dateFrom: string; dateTo: string };
+    totals: {
+        byCurrency: CurrencyTotals;
+        count: number;
+    };
+    comparison: Record<string, CurrencyDelta>;
+    groups: AnalyticsGroup[];
+}
+
+/**
+ * Totals of one direction (spend or income) in a monthly summary
+ */
+export interface SummaryTotals {
+    count: number;
+    byCurrency: CurrencyTotals;
+    byCategory: Record<string, CurrencyTotals>;
+    byMerchant: Record<string, CurrencyTotals>;
+}
+
+/**
+ * Running totals of a user's stored transactions dated in one month, as kept in users/{id}/monthlySummaries
+ */
+export interface MonthlySummary {
+    month: string; // YYYY-MM
+    debit: SummaryTotals;
+    credit: SummaryTotals;
+}
+
+/**
+ * One row of the local exchange-rate table: the value of one unit of `currency`
+ * in the base currency (SAR), effective from `date` until the next row for that currency
+ */
+export interface ExchangeRate {
+    currency: string;
+    date: string; // YYYY-MM-DD
+    rate: number;
+}
+
+/**
+ * A transaction amount converted to the user's home currency
+ */
+export interface HomeAmount {
+    amount: number;
+    currency: string;
+    rate: number; // Home-currency units per unit of the transaction currency
+    rateDate: string; // Date of the oldest exchange rate the conversion used
+}
+
 export interface CategoryRule {
     keywords: string[];
     category: string;
@@ -27,9 +317,244 @@ export interface MerchantPattern {
     category?: string;
 }
 
+/**
+ * Category rule as persisted in the `categoryRules` collection
+ */
+export interface StoredCategoryRule extends CategoryRule {
+    id: string;
+}
+
+/**
+ * Merchant pattern as persisted in the `merchantPatterns` collection
+ * The regex is stored as its source string since RegExp is not serializable
+ */
+export interface StoredMerchantPattern {
+    id: string;
+    pattern: string;
+    flags: string;
+    normalizedName: string;
+    category?: string;
+    priority: number; // Higher priority patterns are tried first
+}
+
+/**
+ * User-defined merchant alias: renames a merchant and/or pins its category
+ */
+export interface MerchantAlias {
+    pattern: RegExp; // The stored pattern as literal text; see toLiteralPattern
+    normalizedName?: string;
+    category?: string;
+}
+
+/**
+ * Merchant alias as persisted in users/{id}/merchantAliases
+ */
+export interface StoredMerchantAlias {
+    id: string;
+    pattern: string; // Plain text found anywhere in the merchant name, ignoring case
+    normalizedName?: string;
+    category?: string;
+}
+
+/**
+ * Rules scoped to a single user under users/{id}
+ */
+export interface UserRuleSet {
+    categoryRules: CategoryRule[];
+    merchantAliases: MerchantAlias[];
+    learnedCategories: Record<string, string>; // Merchant key -> category from user corrections
+}
+
+/**
+ * Learned merchant -> category mapping as persisted in users/{id}/categoryFeedback
+ */
+export interface CategoryFeedback {
+    id: string;
+    merchant: string;
+    merchantKey: string;
+    category: string;
+    corrections: number;
+}
+
+/**
+ * Message that failed a strict parse, as persisted in users/{id}/unparsedInbox
+ */
+export interface UnparsedMessage {
+    id: string;
+    rawText: string;
+    missingFields: ParsedField[];
+    bankFormat: string;
+    parseInfo: ParseInfo;
+    createdAt?: Timestamp;
+}
+
+/**
+ * active - charged within the expected period; missed - the expected charge is overdue;
+ * cancelled - no charge for several periods
+ */
+export type SubscriptionStatus = "active" | "missed" | "cancelled";
+
+/**
+ * A recurring payment (subscription or bill) detected in a user's transactions, as kept in users/{id}/subscriptions
+ */
+export interface Subscription {
+    id: string; // The recurring series' ID (recurrence.seriesId)
+    merchant: string;
+    name?: string; // Set by the user
+    amount: number; // Latest charged amount
+    currency: string;
+    period: RecurrencePeriod;
+    lastChargedAt: string; // YYYY-MM-DD
+    nextExpectedDate: string; // YYYY-MM-DD
+    status: SubscriptionStatus;
+    chargeCount: number;
+    confirmed: boolean;
+    dismissed: boolean;
+    priceChange?: SubscriptionPriceChange; // Flagged until the user confirms the subscription
+}
+
+export interface SubscriptionPriceChange {
+    previousAmount: number;
+    amount: number;
+    date: string; // YYYY-MM-DD of the first charge at the new price
+}
+
+/**
+ * A monthly spending limit for one category, in the currency it was set in (the user's home currency at the time)
+ */
+export interface Budget {
+    id: string;
+    category: string;
+    limit: number;
+    currency: string;
+}
+
+/**
+ * A budget's spend for one month
+ */
+export interface BudgetStatus extends Budget {
+    month: string; // YYYY-MM
+    spent: number;
+    remaining: number; // Negative once overspent
+    percentUsed: number;
+    projected: number; // Spend by the end of the month at the pace so far; the final spend for past months
+    count: number;
+    unconverted: number; // Transactions left out for lack of an exchange rate into the budget's currency
+}
+
+export type NotificationType = "budget_threshold";
+
+/**
+ * An event for the user, as kept in users/{id}/notifications
+ */
+export interface UserNotification {
+    id: string;
+    type: NotificationType;
+    read: boolean;
+    budgetId: string;
+    category: string;
+    month: string; // YYYY-MM
+    threshold: number; // Percent of the limit that was reached
+    spent: number;
+    limit: number;
+    currency: string;
+    transactionId: string; // The transaction that crossed the threshold
+    createdAt?: Timestamp;
+}
+
+/**
+ * Fields a bank template can capture
+ * The amount pattern captures the amount in group 1 and the currency code in group 2
+ */
+export type TemplateField =
+    "description" | "amount" | "merchant" | "card" | "account" | "date" |
+    "reference" | "terminal" | "time" | "branch" | "channel" | "approval" | "location" |
+    "type" | "balance" | "device" | "islamic" | "installment";
+
+/**
+ * Compiled regexes of a bank format, keyed by field
+ */
+export type BankPatternSet = Partial<Record<TemplateField, RegExp>>;
+
+/**
+ * How a template captures one field, plus post-processing hints
+ */
+export interface TemplateFieldSpec {
+    pattern: string; // Regex source
+    flags: string; // Regex flags, e.g. "i"
+    required?: boolean; // The template only applies to messages where this field matches
+    amountSign?: "debit" | "credit" | "signed"; // amount only: fixed direction, or read a leading -/+ (minus = debit)
+    dateFormat?: "DMY" | "MDY" | "YMD"; // date only: order of the captured parts, DMY by default
+    calendar?: "gregorian" | "hijri"; // date only: Hijri dates are converted to Gregorian
+}
+
+/**
+ * Serializable bank format as persisted in the `bankTemplates` collection
+ * The ID is also the bankFormat reported on parsed transactions
+ */
+export interface BankTemplate {
+    id: string;
+    name?: string;
+    fields: Partial<Record<TemplateField, TemplateFieldSpec>>;
+    samples: string[]; // Messages every required field must match; checked on upload
+    priority: number; // Higher priority templates win ties
+    version: number; // Incremented on every update; past versions are kept
+}
+
+/**
+ * Bank template ready for matching
+ */
+export interface CompiledBankTemplate {
+    id: string;
+    patterns: BankPatternSet;
+    fields: Partial<Record<TemplateField, TemplateFieldSpec>>;
+}
+
+/**
+ * Outcome of running a template against one message
+ */
+export interface TemplateTestResult {
+    message: string;
+    applies: boolean; // Every required field matched
+    missingRequired: TemplateField[];
+    matchedFields: TemplateField[];
+    score: number; // Share of the template's fields that matched
+    parsed?: ParsedTransaction; // Parse using only this template, when it applies
+    error?: string; // Why the parse failed, e.g. an impossible date
+}
+
+/**
+ * What one template captured from a message, as printed and before normalization
+ */
+export interface TemplateMatch {
+    confidence: number; // Share of the template's fields that matched; 0 when a required field is missing
+    description?: string;
+    amount?: string; // May carry a sign and thousands separators
+    currency?: string;
+    merchant?: string;
+    card?: string;
+    account?: string;
+    date?: string;
+    details: TransactionDetails;
+    spans: Partial<Record<ParsedField | keyof TransactionDetails, MatchSpan>>;
+    patterns: Partial<Record<ParsedField | keyof TransactionDetails, string>>; // Regex source behind each capture
+    matchedFields: TemplateField[];
+    missingRequired: TemplateField[];
+}
+
+/**
+ * Rules consulted by the parser for classification and merchant normalization
+ */
+export interface RuleSet {
+    categoryRules: CategoryRule[];
+    merchantPatterns: MerchantPattern[];
+    templates?: CompiledBankTemplate[]; // Bank formats to try; the built-in ones when omitted
+    userRules?: UserRuleSet; // Evaluated before the global rules
+}
+
 export type ApiResponse = {
     success: boolean;
-    data?: ParsedTransaction | ParsedTransaction[] | any;
+    data?: ParsedTransaction | ParsedTransaction[] | Record<string, unknown>;
     error?: string;
     message?: string;
     metadata?: {
@@ -1,40 +1,184 @@
-import { ParsedTransaction } from "./types";
-import { BANK_PATTERNS, CATEGORY_RULES, MERCHANT_PATTERNS } from "./const";
+import {
+    BankPatternSet,
+    BankTemplate,
+    CategoryRule,
+    CategorySource,
+    CompiledBankTemplate,
+    FieldProvenance,
+    FieldSource,
+    FormatDetection,
+    MatchSpan,
+    ParsedField,
+    ParsedTransaction,
+    ParseInfo,
+    ParseOptions,
+    RecurrenceCandidate,
+    RecurrencePeriod,
+    RuleSet,
+    TemplateField,
+    TemplateFieldSpec,
+    TemplateMatch,
+    TemplateTestResult,
+    TransactionDetails,
+    TransactionDirection,
+    TransactionRecurrence,
+    TransactionType,
+} from "./types";
+import {
+    BANK_PATTERNS,
+    BANK_SENDER_IDS,
+    CATEGORY_RULES,
+    FIELD_CONFIDENCE_WEIGHTS,
+    MERCHANT_PATTERNS,
+    RECURRENCE_AMOUNT_TOLERANCE,
+    RECURRENCE_INTERVAL_DAYS,
+    RECURRENCE_MIN_OCCURRENCES,
+    SEARCH_PREFIX_MIN_LENGTH,
+    SEARCH_TOKEN_MAX_LENGTH,
+    STRICT_REQUIRED_FIELDS,
+    TRANSACTION_TYPE_RULES,
+} from "./const";
+import { AppError } from "../../middleware/error-handler";
+import { InvalidDateError, daysBetween, hasHijriMarker, normalizeDate } from "./dates";
+import { cleanText, foldLetters, normalizePattern, normalizeText } from "./text";
+
+/**
+ * Built-in bank formats from const.ts, in declaration order
+ */
+const DEFAULT_TEMPLATES: CompiledBankTemplate[] = Object.entries(BANK_PATTERNS)
+    .map(([id, patterns], index, all) => compileBankTemplate(templateFromPatterns(id, patterns, (all.length - index) * 10)));
+
+/**
+ * Bank format for each known sender ID, keyed by toSenderKey
+ */
+const SENDER_FORMATS = new Map<string, string>(
+    Object.entries(BANK_SENDER_IDS).reduce<Array<[string, string]>>((entries, [format, senderIds]) =>
+        entries.concat(senderIds.map((senderId) => [toSenderKey(senderId), format])), [])
+);
+
+/**
+ * Built-in rules from const.ts, used when no rule store is supplied
+ */
+export const DEFAULT_RULE_SET: RuleSet = {
+    categoryRules: CATEGORY_RULES,
+    merchantPatterns: MERCHANT_PATTERNS,
+    templates: DEFAULT_TEMPLATES,
+};
+
+/**
+ * Thrown by a strict parse when required fields could not be matched
+ * Carries the parse diagnostics so the message can be filed in the unparsed inbox
+ */
+export class UnparseableTransactionError extends AppError {
+    public readonly missingFields: ParsedField[];
+    public readonly bankFormat: string;
+    public readonly parseInfo: ParseInfo;
+
+    /**
+     * Record which required fields were missing from the best-scoring format
+     */
+    constructor(missingFields: ParsedField[], bankFormat: string, parseInfo: ParseInfo) {
+        super(`Unable to parse transaction: could not match ${missingFields.join(", ")}`, 422);
+        this.missingFields = missingFields;
+        this.bankFormat = bankFormat;
+        this.parseInfo = parseInfo;
+    }
+}
 
 // ==================== CORE PARSING FUNCTIONS ====================
 
 /**
  * Main transaction parser function
+ * In strict mode, throws UnparseableTransactionError rather than defaulting amount, currency or date,
+ * and InvalidDateError for a date that does not exist; otherwise such a date defaults like a missing one
  */
-export function parseTransaction(rawText: string): ParsedTransaction {
-    const lines = rawText.trim().split("\n").map((line) => line.trim());
-
-    // Try different bank patterns
-    let parsedData: any = {};
+export function parseTransaction(
+    rawText: string,
+    ruleSet: RuleSet = DEFAULT_RULE_SET,
+    options: ParseOptions = {}
+): ParsedTransaction {
+    // Digits, separators and letter variants are folded so every format sees the same text;
+    // letter folding keeps positions, so captured values are read back from the text as spelled
+    const display = cleanText(rawText);
+    const text = foldLetters(display);
+    const lines = display.trim().split("\n").map((line) => line.trim());
+
+    // A known sender picks its bank's format outright, as long as that format matches the text;
+    // otherwise try every bank template and the earliest (highest priority) wins ties
+    const senderFormat = options.senderId ? SENDER_FORMATS.get(toSenderKey(options.senderId)) : undefined;
+    let parsedData: Partial<TemplateMatch> = {};
     let detectedBank = "generic";
-
-    for (const [bankName, patterns] of Object.entries(BANK_PATTERNS)) {
-        const result = tryParseWithPattern(rawText, patterns);
-        if (result.confidence > (parsedData.confidence || 0)) {
+    let detection: FormatDetection = "score";
+    let template: CompiledBankTemplate | undefined;
+    const scores: Array<{ bankFormat: string; score: number }> = [];
+
+    for (const candidate of ruleSet.templates || DEFAULT_TEMPLATES) {
+        const result = tryParseWithPattern(text, candidate, display);
+        scores.push({ bankFormat: candidate.id, score: round(result.confidence) });
+        const fromSender = candidate.id === senderFormat && result.confidence > 0;
+        if (fromSender || (detection === "score" && result.confidence > (parsedData.confidence || 0))) {
             parsedData = result;
-            detectedBank = bankName;
+            detectedBank = candidate.id;
+            template = candidate;
+            detection = fromSender ? "sender" : "score";
         }
     }
 
     // Extract basic fields
     const description = parsedData.description || lines[0] || "";
-    const amount = parseFloat(parsedData.amount?.replace(/,/g, "") || "0");
+    const signedAmount = parseFloat(parsedData.amount?.replace(/,/g, "") || "0");
+    const amount = Math.abs(signedAmount);
     const currency = parsedData.currency || "SAR";
-    const merchant = normalizeMerchant(parsedData.merchant || extractMerchantFallback(rawText));
+    const fallbackMerchant = parsedData.merchant ? undefined : extractMerchantFallback(text, display);
+    const merchant = normalizeMerchant(parsedData.merchant || fallbackMerchant, ruleSet);
     const accountMasked = formatAccountMasked(parsedData.card, parsedData.account);
-    const date = normalizeDate(parsedData.date);
+    const dateSpec = template?.fields.date;
+    let date: string;
+    let dateValid = true;
+    try {
+        date = normalizeDate(parsedData.date, {
+            receivedAt: options.receivedAt,
+            format: dateSpec?.dateFormat,
+            hijri: dateSpec?.calendar === "hijri" || hasHijriMarker(text, parsedData.date),
+        });
+    } catch (error) {
+        // Only strict mode fails the request over a bad date; otherwise it falls back like a missing one
+        if (options.strict || !(error instanceof InvalidDateError)) {
+            throw error;
+        }
+        date = normalizeDate(undefined, { receivedAt: options.receivedAt });
+        dateValid = false;
+    }
+
+    const details = buildDetails(date, parsedData.details);
+
+    // Debit or credit, from the transaction keywords unless the template fixes the amount's sign
+    const detected = detectTransactionType(description, text);
+    const type = detected.type;
+    const direction = directionFromSign(template?.fields.amount?.amountSign, parsedData.amount) || detected.direction;
 
     // Classify category
-    const category = classifyCategory(description, merchant);
+    const { category, source: categorySource } = classifyCategory(description, merchant, ruleSet);
 
     // Basic recurrence detection
     const recurrence = detectRecurrence(merchant, amount, description);
 
+    const parseInfo = buildParseInfo(parsedData, detectedBank, scores, {
+        description: parsedData.description ? "matched" : lines[0] ? "fallback" : "default",
+        amount: parsedData.amount ? "matched" : "default",
+        currency: parsedData.currency ? "matched" : "default",
+        merchant: parsedData.merchant ? "matched" : fallbackMerchant !== "Unknown Merchant" ? "fallback" : "default",
+        account: parsedData.card || parsedData.account ? "matched" : "default",
+        date: parsedData.date && dateValid ? "matched" : "default",
+    }, text, { detection, senderFormat }, options);
+
+    if (options.strict) {
+        const missingFields = STRICT_REQUIRED_FIELDS.filter((field) => parseInfo.fields[field].source !== "matched");
+        if (missingFields.length > 0) {
+            throw new UnparseableTransactionError(missingFields, detectedBank, parseInfo);
+        }
+    }
+
     return {
         description,
         amount,
@@ -42,82 +186,272 @@ export function parseTransaction(rawText: string): ParsedTransaction {
         merchant,
         accountMasked,
         date,
+        type,
+        direction,
         category,
+        categorySource,
         recurrence,
+        details,
+        parseInfo,
         rawText,
         bankFormat: detectedBank,
     };
 }
 
 /**
- * Try parsing with a specific bank pattern
+ * Try parsing with a specific bank template
+ * Records the regex and text span behind every captured field for explainability.
+ * A template missing any of its required fields scores 0.
+ * Patterns match the normalized text; captured values come from display at the same positions.
  */
-function tryParseWithPattern(text: string, patterns: any): any {
-    const result: any = { confidence: 0 };
+function tryParseWithPattern(text: string, template: CompiledBankTemplate, display = text): TemplateMatch {
+    const { patterns } = template;
+    const result: TemplateMatch = { confidence: 0, details: {}, spans: {}, patterns: {}, matchedFields: [], missingRequired: [] };
     let matchCount = 0;
 
+    const hit = (field: TemplateField): void => {
+        result.matchedFields.push(field);
+        matchCount++;
+    };
+
+    const capture = (field: ParsedField | keyof TransactionDetails, regex: RegExp | undefined, match: RegExpMatchArray, group = 1): void => {
+        result.spans[field] = toSpan(match, group);
+        result.patterns[field] = regex?.source;
+    };
+
+    const valueOf = (match: RegExpMatchArray, group = 1): string => {
+        const span = toSpan(match, group);
+        return display.slice(span.start, span.end);
+    };
+
     // Description
-    const descMatch = text.match(patterns.description);
+    const descMatch = patterns.description && text.match(patterns.description);
     if (descMatch) {
-        result.description = descMatch[1].trim();
-        matchCount++;
+        result.description = valueOf(descMatch).trim();
+        capture("description", patterns.description, descMatch);
+        hit("description");
     }
 
     // Amount and currency
-    const amountMatch = text.match(patterns.amount);
+    const amountMatch = patterns.amount && text.match(patterns.amount);
     if (amountMatch) {
         result.amount = amountMatch[1];
         result.currency = amountMatch[2];
-        matchCount += 2;
+        capture("amount", patterns.amount, amountMatch);
+        capture("currency", patterns.amount, amountMatch, 2);
+        hit("amount");
+        matchCount++; // Currency comes from the same match
     }
 
     // Merchant
-    const merchantMatch = text.match(patterns.merchant);
+    const merchantMatch = patterns.merchant && text.match(patterns.merchant);
     if (merchantMatch) {
-        result.merchant = merchantMatch[1].trim();
-        matchCount++;
+        result.merchant = valueOf(merchantMatch).trim();
+        capture("merchant", patterns.merchant, merchantMatch);
+        hit("merchant");
     }
 
-    // Card
-    const cardMatch = text.match(patterns.card);
+    // Card (wallet formats have no card pattern; String.match(undefined) would match the empty string,
+    // and templates may leave out any field, so every match below is guarded the same way)
+    const cardMatch = patterns.card && text.match(patterns.card);
     if (cardMatch) {
-        result.card = cardMatch[1];
-        matchCount++;
+        result.card = valueOf(cardMatch);
+        capture("account", patterns.card, cardMatch);
+        hit("card");
     }
 
     // Account
-    const accountMatch = text.match(patterns.account);
+    const accountMatch = patterns.account && text.match(patterns.account);
     if (accountMatch) {
-        result.account = accountMatch[1];
-        matchCount++;
+        result.account = valueOf(accountMatch);
+        if (!result.spans.account) {
+            capture("account", patterns.account, accountMatch);
+        }
+        hit("account");
     }
 
     // Date
-    const dateMatch = text.match(patterns.date);
+    const dateMatch = patterns.date && text.match(patterns.date);
     if (dateMatch) {
         result.date = dateMatch[1];
-        matchCount++;
+        capture("date", patterns.date, dateMatch);
+        hit("date");
     }
 
-    result.confidence = matchCount / Object.keys(patterns).length;
+    // Bank-specific extra fields
+    const details: TransactionDetails = {};
+    for (const field of ["reference", "terminal", "time", "branch", "channel", "approval", "location"] as const) {
+        const match = patterns[field] && text.match(patterns[field]);
+        if (match?.[1]) {
+            details[field] = valueOf(match).trim();
+            capture(field, patterns[field], match);
+            hit(field);
+        }
+    }
+
+    const operationMatch = patterns.type && text.match(patterns.type);
+    if (operationMatch) {
+        details.operationType = valueOf(operationMatch).trim();
+        hit("type");
+    }
+
+    const balanceMatch = patterns.balance && text.match(patterns.balance);
+    if (balanceMatch) {
+        details.balance = parseFloat(balanceMatch[1].replace(/,/g, ""));
+        hit("balance");
+    }
+
+    // Device and islamic patterns have no capture group; the match itself is the value
+    const deviceMatch = patterns.device && text.match(patterns.device);
+    if (deviceMatch) {
+        details.device = valueOf(deviceMatch, deviceMatch[1] ? 1 : 0).trim();
+        hit("device");
+    }
+
+    if (patterns.islamic && patterns.islamic.test(text)) {
+        details.islamic = true;
+        hit("islamic");
+    }
+
+    // Tamara prints "قسط 2 من 4" (n of m); Tabby only the installment number
+    const installmentMatch = patterns.installment && text.match(patterns.installment);
+    if (installmentMatch) {
+        details.installment = {
+            number: parseInt(installmentMatch[1], 10),
+            ...(installmentMatch[2] && { total: parseInt(installmentMatch[2], 10) }),
+        };
+        hit("installment");
+    }
+
+    result.details = details;
+    result.missingRequired = (Object.keys(template.fields) as TemplateField[])
+        .filter((field) => template.fields[field]?.required && !result.matchedFields.includes(field));
+    result.confidence = result.missingRequired.length > 0 ? 0 : matchCount / Object.keys(patterns).length;
     return result;
 }
 
+/**
+ * Character span of a capture group within the SMS
+ * match.indices would need the "d" flag on every bank regex, so locate the group inside the whole match instead
+ */
+function toSpan(match: RegExpMatchArray, group: number): MatchSpan {
+    const value = match[group] || "";
+    const start = (match.index || 0) + Math.max(match[0].indexOf(value), 0);
+    return { start, end: start + value.length, text: value };
+}
+
+/**
+ * Summarize parse quality: overall confidence, per-field provenance, runner-up formats and warnings
+ */
+function buildParseInfo(
+    parsedData: Partial<TemplateMatch>,
+    detectedBank: string,
+    scores: Array<{ bankFormat: string; score: number }>,
+    sources: Record<ParsedField, FieldSource>,
+    normalizedText: string,
+    { detection, senderFormat }: { detection: FormatDetection; senderFormat?: string },
+    options: ParseOptions
+): ParseInfo {
+    const fields = {} as Record<ParsedField, FieldProvenance>;
+    let fieldScore = 0;
+
+    (Object.keys(sources) as ParsedField[]).forEach((field) => {
+        const source = sources[field];
+        fields[field] = {
+            source,
+            ...(source === "matched" && parsedData.patterns?.[field] && { pattern: parsedData.patterns[field] }),
+        };
+        fieldScore += FIELD_CONFIDENCE_WEIGHTS[field] * (source === "matched" ? 1 : source === "fallback" ? 0.5 : 0);
+    });
+
+    const warnings: string[] = [];
+    if (sources.amount === "default") warnings.push("Amount not found; defaulted to 0");
+    if (sources.currency === "default") warnings.push("Currency not found; defaulted to SAR");
+    if (sources.date === "default") {
+        warnings.push(parsedData.date ?
+            `Date '${parsedData.date}' does not exist; defaulted to the day received` :
+            "Date not found; defaulted to today");
+    }
+    if (sources.merchant === "default") warnings.push("Merchant not found; defaulted to Unknown Merchant");
+    if (sources.merchant === "fallback") warnings.push("Merchant guessed from message text");
+    if (options.senderId && detection === "score") {
+        warnings.push(senderFormat ?
+            `Sender ID '${options.senderId}' maps to format ${senderFormat}, which did not match; detected by score` :
+            `Unknown sender ID '${options.senderId}'; detected by score`);
+    }
+
+    // Amount and currency share one regex but count as two matches, so the raw ratio can exceed 1
+    const formatScore = round(Math.min(parsedData.confidence || 0, 1));
+    const runnerUps = scores
+        .filter((entry) => entry.bankFormat !== detectedBank && entry.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 3);
+
+    return {
+        // Field coverage dominates; the format's match ratio separates clean parses from lucky ones
+        confidence: round(fieldScore * 0.7 + formatScore * 0.3),
+        formatScore,
+        fields,
+        runnerUps,
+        detection,
+        ...(options.senderId && { senderId: options.senderId }),
+        warnings,
+        ...(options.explain && { spans: parsedData.spans || {}, normalizedText }),
+    };
+}
+
+/**
+ * Key for looking up an SMS sender ID: lowercase without spaces or punctuation
+ */
+function toSenderKey(senderId: string): string {
+    return senderId.toLowerCase().replace(/[\s\-_.]/g, "");
+}
+
+/**
+ * Round a score to 2 decimal places
+ */
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Combine the normalized date with the SMS time into an ISO timestamp in Riyadh time
+ */
+function buildDetails(date: string, details: TransactionDetails = {}): TransactionDetails {
+    const timeMatch = details.time?.match(/^(\d{1,2}):(\d{2})$/);
+    if (!timeMatch || Number(timeMatch[1]) > 23 || Number(timeMatch[2]) > 59) {
+        return details;
+    }
+
+    return {
+        ...details,
+        timestamp: `${date}T${timeMatch[1].padStart(2, "0")}:${timeMatch[2]}:00+03:00`,
+    };
+}
+
 /**
  * Normalize merchant name using patterns
  */
-function normalizeMerchant(rawMerchant: string): string {
+function normalizeMerchant(rawMerchant: string | undefined, ruleSet: RuleSet): string {
     if (!rawMerchant) return "Unknown Merchant";
 
     // Clean the merchant string
     const normalized = rawMerchant
-        .replace(/[A-Z0-9]{8,}/g, "") // Remove long alphanumeric codes
+        .replace(/\b(?=[A-Z]*\d)[A-Z0-9]{8,}\b/g, "") // Remove long codes; a long word without digits is a name
         .replace(/\s+/g, " ")
         .trim();
 
+    // User aliases take precedence over the global patterns
+    const folded = normalizeText(normalized);
+    for (const alias of ruleSet.userRules?.merchantAliases || []) {
+        if (alias.normalizedName && normalizePattern(alias.pattern).test(folded)) {
+            return alias.normalizedName;
+        }
+    }
+
     // Apply merchant patterns
-    for (const pattern of MERCHANT_PATTERNS) {
-        if (pattern.pattern.test(normalized)) {
+    for (const pattern of ruleSet.merchantPatterns) {
+        if (normalizePattern(pattern.pattern).test(folded)) {
             return pattern.normalizedName;
         }
     }
@@ -127,19 +461,23 @@ function normalizeMerchant(rawMerchant: string): string {
 
 /**
  * Extract merchant as fallback when pattern fails
+ * Indicators are found in the normalized text and the merchant read from display as spelled
  */
-function extractMerchantFallback(text: string): string {
+function extractMerchantFallback(text: string, display = text): string {
     const merchantIndicators = ["من", "إلى", "لدى", "عند"];
 
     for (const indicator of merchantIndicators) {
-        const regex = new RegExp(`${indicator}\\s+([^\\n]+)`, "i");
+        // The indicator is a whole word with the name on its line: "صراف آلي" folds to the same letters as "إلى"
+        const regex = new RegExp(`(?:^|\\s)${normalizeText(indicator)}[ \\t]+([^\\n]+)`, "i");
         const match = text.match(regex);
         if (match) {
-            return match[1].trim();
+            const span = toSpan(match, 1);
+            return display.slice(span.start, span.end).trim();
         }
     }
 
-    const words = text.split(/\s+/);
+    // Currency codes after an amount are capitals too
+    const words = display.replace(/\d[\d,.]*\s*[A-Z]{3}\b/g, " ").split(/\s+/);
     const possibleMerchants = words.filter((word) =>
         /[A-Z]/.test(word) && word.length > 2
     );
@@ -157,57 +495,144 @@ function formatAccountMasked(card?: string, account?: string): string {
     return parts.join(" / ") || "N/A";
 }
 
+// ==================== TRANSACTION TYPE DETECTION ====================
+
 /**
- * Normalize date to YYYY-MM-DD format
+ * Detect purchase/refund/transfer/salary/... and whether money left or entered the account
+ * The first line usually names the operation, so it is checked before the rest of the message
  */
-function normalizeDate(dateStr?: string): string {
-    if (!dateStr) return new Date().toISOString().split("T")[0];
-
-    let normalized = dateStr;
-
-    // Convert DD-MM-YY to YYYY-MM-DD
-    const ddmmyyMatch = dateStr.match(/(\d{2})-(\d{2})-(\d{1,2})/);
-    if (ddmmyyMatch) {
-        const [, day, month, year] = ddmmyyMatch;
-        const fullYear = year.length === 2 ? `20${year}` : year;
-        normalized = `${fullYear}-${month}-${day}`;
+export function detectTransactionType(
+    description: string,
+    rawText: string
+): { type: TransactionType; direction: TransactionDirection } {
+    for (const text of [description, rawText]) {
+        const lowered = normalizeText(text).toLowerCase();
+        for (const rule of TRANSACTION_TYPE_RULES) {
+            if (rule.keywords.some((keyword) => containsKeyword(lowered, normalizeText(keyword).toLowerCase()))) {
+                return { type: rule.type, direction: rule.direction };
+            }
+        }
     }
 
-    // Handle DD/MM/YYYY format
-    const ddmmyyyyMatch = dateStr.match(/(\d{2})\/(\d{2})\/(\d{4})/);
-    if (ddmmyyyyMatch) {
-        const [, day, month, year] = ddmmyyyyMatch;
-        normalized = `${year}-${month}-${day}`;
-    }
+    return { type: "purchase", direction: "debit" };
+}
 
-    return normalized;
+/**
+ * Match Latin keywords on word boundaries (so "pos" doesn't match "deposit"); Arabic as substrings
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+    if (/^[a-z ]+$/.test(keyword)) {
+        return new RegExp(`\\b${keyword}\\b`).test(text);
+    }
+    return text.includes(keyword);
 }
 
 // ==================== CATEGORY CLASSIFICATION ====================
 
 /**
  * Classify transaction category using rules-based approach
+ * A user's own aliases, learned corrections and rules are evaluated before the global ones
  */
-function classifyCategory(description: string, merchant: string): string {
-    const text = `${description} ${merchant}`.toLowerCase();
+function classifyCategory(
+    description: string,
+    merchant: string,
+    ruleSet: RuleSet
+): { category: string; source: CategorySource } {
+    const text = normalizeText(`${description} ${merchant}`).toLowerCase();
+
+    if (ruleSet.userRules) {
+        for (const alias of ruleSet.userRules.merchantAliases) {
+            const pattern = normalizePattern(alias.pattern);
+            if (alias.category && (pattern.test(normalizeText(merchant)) || pattern.test(text))) {
+                return { category: alias.category, source: "merchant_alias" };
+            }
+        }
+
+        const learned = ruleSet.userRules.learnedCategories[toMerchantKey(merchant)];
+        if (learned) {
+            return { category: learned, source: "learned" };
+        }
+
+        const category = matchCategoryRules(text, ruleSet.userRules.categoryRules);
+        if (category) {
+            return { category, source: "user_rule" };
+        }
+    }
 
-    const sortedRules = [...CATEGORY_RULES].sort((a, b) => b.priority - a.priority);
+    const category = matchCategoryRules(text, ruleSet.categoryRules);
+    if (category) {
+        return { category, source: "rule" };
+    }
+
+    for (const pattern of ruleSet.merchantPatterns) {
+        if (pattern.category && normalizePattern(pattern.pattern).test(text)) {
+            return { category: pattern.category, source: "merchant_pattern" };
+        }
+    }
+
+    return { category: "Other", source: "default" };
+}
+
+/**
+ * Key used to look up learned categories for a normalized merchant name
+ * Spelling variants (ة/ه, أ/ا, ...) fold to the same key
+ */
+export function toMerchantKey(merchant: string): string {
+    return normalizeText(merchant).toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Return the category of the highest-priority rule with a keyword found in the text
+ */
+function matchCategoryRules(text: string, rules: CategoryRule[]): string | undefined {
+    const sortedRules = [...rules].sort((a, b) => b.priority - a.priority);
 
     for (const rule of sortedRules) {
         for (const keyword of rule.keywords) {
-            if (text.includes(keyword.toLowerCase())) {
+            if (text.includes(normalizeText(keyword).toLowerCase())) {
                 return rule.category;
             }
         }
     }
 
-    for (const pattern of MERCHANT_PATTERNS) {
-        if (pattern.category && pattern.pattern.test(text)) {
-            return pattern.category;
+    return undefined;
+}
+
+// ==================== SEARCH ====================
+
+/**
+ * Normalized, lowercased words and word prefixes of the description and merchant
+ * Stored as `searchTokens` so free-text search can use an array-contains query
+ */
+export function buildSearchTokens(description: string, merchant: string): string[] {
+    const tokens = new Set<string>();
+    const words = normalizeText(`${description} ${merchant}`)
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length >= 2);
+
+    for (const word of words) {
+        const capped = word.slice(0, SEARCH_TOKEN_MAX_LENGTH);
+        for (let length = Math.min(SEARCH_PREFIX_MIN_LENGTH, capped.length); length <= capped.length; length++) {
+            tokens.add(capped.slice(0, length));
         }
     }
 
-    return "Other";
+    return [...tokens];
+}
+
+/**
+ * Normalize a search term to the token it should match in `searchTokens`
+ * For multi-word input the longest word is used since it is the most selective
+ */
+export function toSearchToken(search: string): string | undefined {
+    const words = normalizeText(search)
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length >= 2)
+        .sort((a, b) => b.length - a.length);
+
+    return words[0]?.slice(0, SEARCH_TOKEN_MAX_LENGTH);
 }
 
 // ==================== RECURRENCE DETECTION ====================
@@ -215,16 +640,11 @@ function classifyCategory(description: string, merchant: string): string {
 /**
  * Basic recurrence detection
  */
-function detectRecurrence(merchant: string, amount: number, description: string): {
-    isRecurring: boolean;
-    period?: "daily" | "weekly" | "monthly" | "yearly";
-    confidence?: number;
-} {
+function detectRecurrence(merchant: string, amount: number, description: string): TransactionRecurrence {
+    const text = normalizeText(`${merchant} ${description}`).toLowerCase();
+
     const subscriptionKeywords = ["spotify", "netflix", "prime", "subscription", "اشتراك"];
-    const isLikelySubscription = subscriptionKeywords.some((keyword) =>
-        merchant.toLowerCase().includes(keyword) ||
-        description.toLowerCase().includes(keyword)
-    );
+    const isLikelySubscription = subscriptionKeywords.some((keyword) => text.includes(normalizeText(keyword)));
 
     if (isLikelySubscription) {
         return {
@@ -235,10 +655,7 @@ function detectRecurrence(merchant: string, amount: number, description: string)
     }
 
     const utilityKeywords = ["كهرباء", "مياه", "إنترنت", "جوال", "electricity", "water", "internet", "mobile"];
-    const isUtility = utilityKeywords.some((keyword) =>
-        merchant.toLowerCase().includes(keyword) ||
-        description.toLowerCase().includes(keyword)
-    );
+    const isUtility = utilityKeywords.some((keyword) => text.includes(normalizeText(keyword)));
 
     if (isUtility) {
         return {
@@ -254,87 +671,148 @@ function detectRecurrence(merchant: string, amount: number, description: string)
 }
 
 /**
- * Advanced recurrence detection with historical data
+ * Recurrence detection from earlier transactions with the same merchant
+ * Earlier payments of about the same amount and currency are ordered by date, and the run of them around this one
+ * that repeats at one period is the series. Confidence grows with the number of occurrences in the run.
+ * Returns the earlier transactions in the series with the result; without a series the result is not recurring.
  */
 export function detectRecurrenceWithHistory(
     currentTransaction: ParsedTransaction,
-    historicalTransactions: ParsedTransaction[]
-): {
-    isRecurring: boolean;
-    period?: "daily" | "weekly" | "monthly" | "yearly";
-    confidence: number;
-} {
+    historicalTransactions: RecurrenceCandidate[]
+): { recurrence: TransactionRecurrence; matches: RecurrenceCandidate[] } {
+    const merchantKey = toMerchantKey(currentTransaction.merchant);
     const similarTransactions = historicalTransactions.filter((tx) =>
-        tx.merchant === currentTransaction.merchant &&
-        Math.abs(tx.amount - currentTransaction.amount) <= currentTransaction.amount * 0.1
+        typeof tx.merchant === "string" &&
+        typeof tx.date === "string" &&
+        toMerchantKey(tx.merchant) === merchantKey &&
+        tx.currency === currentTransaction.currency &&
+        Math.abs(tx.amount - currentTransaction.amount) <= currentTransaction.amount * RECURRENCE_AMOUNT_TOLERANCE
     );
+    const notRecurring = { recurrence: { isRecurring: false, confidence: 0 }, matches: [] };
 
-    if (similarTransactions.length < 2) {
-        return { isRecurring: false, confidence: 0 };
+    if (currentTransaction.merchant === "Unknown Merchant" || similarTransactions.length < RECURRENCE_MIN_OCCURRENCES - 1) {
+        return notRecurring;
     }
 
-    const dates = similarTransactions.map((tx) => new Date(tx.date)).sort();
-    const intervals = [];
+    // One occurrence per day; YYYY-MM-DD strings sort chronologically
+    const dates = [...new Set([currentTransaction.date, ...similarTransactions.map((tx) => tx.date)])].sort();
+    const current = dates.indexOf(currentTransaction.date);
 
-    for (let i = 1; i < dates.length; i++) {
-        const diff = dates[i].getTime() - dates[i - 1].getTime();
-        const days = diff / (1000 * 60 * 60 * 24);
-        intervals.push(days);
+    // The period is set by the gap next to this transaction, then the run extends while gaps stay within it
+    const period = periodOf(dates[current - 1], dates[current]) || periodOf(dates[current], dates[current + 1]);
+    if (!period) {
+        return notRecurring;
     }
 
-    const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-    const variance = intervals.reduce((sum, interval) => sum + Math.pow(interval - avgInterval, 2), 0) / intervals.length;
-    const standardDeviation = Math.sqrt(variance);
+    let first = current;
+    while (first > 0 && periodOf(dates[first - 1], dates[first]) === period) first--;
+    let last = current;
+    while (last < dates.length - 1 && periodOf(dates[last], dates[last + 1]) === period) last++;
 
-    const isRegular = standardDeviation < avgInterval * 0.2;
-
-    if (!isRegular) {
-        return { isRecurring: false, confidence: 0 };
+    const occurrences = last - first + 1;
+    if (occurrences < RECURRENCE_MIN_OCCURRENCES) {
+        return notRecurring;
     }
 
-    let period: "daily" | "weekly" | "monthly" | "yearly";
-    let confidence = 0;
+    const series = dates.slice(first, last + 1);
+    return {
+        recurrence: {
+            isRecurring: true,
+            period,
+            // 3 occurrences -> 0.6, 6 or more -> 0.9 and above, capped at 0.95
+            confidence: round(Math.min(0.95, 0.3 + 0.1 * occurrences)),
+            occurrences,
+        },
+        matches: similarTransactions.filter((tx) => series.includes(tx.date)),
+    };
+}
 
-    if (avgInterval >= 25 && avgInterval <= 35) {
-        period = "monthly";
-        confidence = 0.9;
-    } else if (avgInterval >= 6 && avgInterval <= 8) {
-        period = "weekly";
-        confidence = 0.8;
-    } else if (avgInterval >= 360 && avgInterval <= 370) {
-        period = "yearly";
-        confidence = 0.8;
-    } else if (avgInterval >= 0.8 && avgInterval <= 1.2) {
-        period = "daily";
-        confidence = 0.7;
-    } else {
-        return { isRecurring: false, confidence: 0 };
+/**
+ * The period whose interval range the gap between two dates falls in
+ */
+function periodOf(from: string | undefined, to: string | undefined): RecurrencePeriod | undefined {
+    if (!from || !to) {
+        return undefined;
     }
 
-    return {
-        isRecurring: true,
-        period,
-        confidence,
-    };
+    const days = daysBetween(from, to);
+    return (Object.keys(RECURRENCE_INTERVAL_DAYS) as RecurrencePeriod[]).find((period) =>
+        days >= RECURRENCE_INTERVAL_DAYS[period].min && days <= RECURRENCE_INTERVAL_DAYS[period].max);
+}
+
+// ==================== BANK TEMPLATES ====================
+
+/**
+ * Describe a built-in regex format as a serializable template
+ */
+export function templateFromPatterns(id: string, patterns: BankPatternSet, priority: number): BankTemplate {
+    const fields: BankTemplate["fields"] = {};
+    for (const [field, regex] of Object.entries(patterns) as Array<[TemplateField, RegExp]>) {
+        fields[field] = { pattern: regex.source, flags: regex.flags };
+    }
+    return { id, fields, samples: [], priority, version: 1 };
 }
 
 /**
- * Add new category rule
+ * Compile a template's patterns so they match normalized text
+ * Throws an "invalid" error naming the field whose regex does not compile
  */
-export function addCategoryRule(keywords: string[], category: string, priority = 50): void {
-    CATEGORY_RULES.push({ keywords, category, priority });
+export function compileBankTemplate(template: Pick<BankTemplate, "id" | "fields">): CompiledBankTemplate {
+    const patterns: BankPatternSet = {};
+    for (const [field, spec] of Object.entries(template.fields) as Array<[TemplateField, TemplateFieldSpec]>) {
+        try {
+            patterns[field] = normalizePattern(new RegExp(spec.pattern, spec.flags));
+        } catch (error) {
+            throw new Error(`Template field ${field} has an invalid pattern: ${(error as Error).message}`);
+        }
+    }
+    return { id: template.id, patterns, fields: template.fields };
 }
 
 /**
- * Add new merchant pattern
+ * Run a template against messages, reporting which fields matched and the parse it would produce
  */
-export function addMerchantPattern(pattern: RegExp, normalizedName: string, category?: string): void {
-    MERCHANT_PATTERNS.push({ pattern, normalizedName, category });
+export function testBankTemplate(
+    template: CompiledBankTemplate,
+    messages: string[],
+    ruleSet: RuleSet = DEFAULT_RULE_SET
+): TemplateTestResult[] {
+    return messages.map((message) => {
+        const result = tryParseWithPattern(normalizeText(message), template);
+        const applies = result.missingRequired.length === 0 && result.matchedFields.length > 0;
+        const outcome: TemplateTestResult = {
+            message,
+            applies,
+            missingRequired: result.missingRequired,
+            matchedFields: result.matchedFields,
+            score: round(Math.min(result.confidence, 1)),
+        };
+
+        if (applies) {
+            try {
+                outcome.parsed = parseTransaction(message, { ...ruleSet, templates: [template] });
+            } catch (error) {
+                outcome.error = (error as Error).message;
+            }
+        }
+        return outcome;
+    });
 }
 
 /**
- * Add new bank parsing pattern
+ * Direction implied by a template's amount sign hint
+ * "signed" reads a leading minus as a debit and a leading plus as a credit; unsigned amounts fall back to keywords
  */
-export function addBankPattern(bankName: string, patterns: any): void {
-    (BANK_PATTERNS as any)[bankName] = patterns;
-}
\ No newline at end of file
+function directionFromSign(
+    amountSign: TemplateFieldSpec["amountSign"],
+    rawAmount?: string
+): TransactionDirection | undefined {
+    if (amountSign === "debit" || amountSign === "credit") {
+        return amountSign;
+    }
+    if (amountSign === "signed" && rawAmount) {
+        if (rawAmount.trim().startsWith("-")) return "debit";
+        if (rawAmount.trim().startsWith("+")) return "credit";
+    }
+    return undefined;
+}
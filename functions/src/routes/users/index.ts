@@ -0,0 +1,391 @@
+import express, { Request, Response } from "express";
+import {
+    UserService,
+    UserRuleService,
+    RuleService,
+    AnalyticsService,
+    FxService,
+    BudgetService,
+    NotificationService,
+    SummaryService,
+} from "../../services";
+import { validateRequest, validateAnalyticsQuery, validateMonthQuery } from "../../middleware/validation";
+import { authenticate, authorizeUser, requireAdmin, setAdminClaim } from "../../middleware/auth";
+import { AppError, asyncHandler, notFoundHandler, errorHandler } from "../../middleware/error-handler";
+import { sendSuccess, sendCreated } from "../../utils/response";
+import { AnalyticsGroupBy, TransactionDirection } from "../transactions/types";
+
+
+const app = express.Router();
+
+// Initialize services
+const userService = new UserService();
+const userRuleService = new UserRuleService();
+const ruleService = new RuleService();
+const analyticsService = new AnalyticsService();
+const fxService = new FxService();
+const budgetService = new BudgetService();
+const notificationService = new NotificationService();
+const summaryService = new SummaryService();
+
+// Every user route requires a verified Firebase ID token
+app.use(authenticate);
+
+/**
+ * Every category available to the user: their own rules' and the global rules' categories
+ */
+async function listCategories(userId: string): Promise<string[]> {
+    const [rules, globalRules] = await Promise.all([
+        userRuleService.listCategoryRules(userId),
+        ruleService.listCategoryRules(),
+    ]);
+    return [...new Set([...rules, ...globalRules].map((rule) => rule.category))].sort();
+}
+
+/**
+ * Reject a budget category the user has no rule for; "Other" collects everything no rule matched
+ */
+async function assertBudgetCategory(userId: string, category: string): Promise<void> {
+    const categories = await listCategories(userId);
+    if (category !== "Other" && !categories.includes(category)) {
+        throw new AppError(`Category ${category} is invalid: it is not one of the user's categories`, 400);
+    }
+}
+
+// ==================== API ROUTES ====================
+
+/**
+ * Create the profile for the authenticated user at users/{uid}
+ */
+app.post("/", validateRequest("user"), asyncHandler(async (req: Request, res: Response) => {
+    const { name, email } = req.body;
+
+    const user = await userService.createUser({ name, email }, req.user?.uid);
+
+    sendCreated(res, user, "User created successfully");
+}));
+
+/**
+ * Get user by ID
+ */
+app.get("/:userId", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    const user = await userService.getUserById(userId);
+
+    sendSuccess(res, user, "User retrieved successfully");
+}));
+
+/**
+ * Update user profile and settings
+ * strictParsing makes strict mode the default for this user's parse requests;
+ * homeCurrency is what stored amounts and analytics are converted to, and needs an exchange rate
+ */
+app.patch("/:userId", authorizeUser, validateRequest("userUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const { name, email, strictParsing, homeCurrency } = req.body;
+
+    if (homeCurrency !== undefined && !(await fxService.isSupportedCurrency(homeCurrency))) {
+        throw new AppError(`Home currency ${homeCurrency} is invalid: no exchange rate is stored for it`, 400);
+    }
+    const user = await userService.updateUser(userId, { name, email, strictParsing, homeCurrency });
+
+    sendSuccess(res, user, "User updated successfully");
+}));
+
+/**
+ * Delete user and all of their transactions
+ */
+app.delete("/:userId", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.deleteUser(userId);
+
+    sendSuccess(res, { id: userId }, "User deleted successfully");
+}));
+
+/**
+ * Get the user's custom category rules alongside every category available to them
+ */
+app.get("/:userId/categories", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const [rules, categories] = await Promise.all([
+        userRuleService.listCategoryRules(userId),
+        listCategories(userId),
+    ]);
+
+    sendSuccess(res, { categories, rules }, "User categories retrieved successfully");
+}));
+
+/**
+ * Add a custom category rule for the user
+ */
+app.post("/:userId/categories", authorizeUser, validateRequest("categoryRule"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const { keywords, category, priority = 50 } = req.body;
+
+    await userService.assertUserExists(userId);
+    const rule = await userRuleService.createCategoryRule(userId, { keywords, category, priority });
+
+    sendCreated(res, rule, `Category rule for '${category}' added successfully`);
+}));
+
+/**
+ * Update one of the user's category rules
+ */
+app.patch("/:userId/categories/:ruleId", authorizeUser, validateRequest("categoryRuleUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId, ruleId } = req.params;
+    const { keywords, category, priority } = req.body;
+
+    const rule = await userRuleService.updateCategoryRule(userId, ruleId, { keywords, category, priority });
+
+    sendSuccess(res, rule, "Category rule updated successfully");
+}));
+
+/**
+ * Delete one of the user's category rules
+ */
+app.delete("/:userId/categories/:ruleId", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, ruleId } = req.params;
+
+    await userRuleService.deleteCategoryRule(userId, ruleId);
+
+    sendSuccess(res, { id: ruleId }, "Category rule deleted successfully");
+}));
+
+/**
+ * Get the user's merchant aliases
+ */
+app.get("/:userId/merchants", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const aliases = await userRuleService.listMerchantAliases(userId);
+
+    sendSuccess(res, aliases, "Merchant aliases retrieved successfully");
+}));
+
+/**
+ * Add a merchant alias, e.g. always file HungerStation under Food & Dining
+ */
+app.post("/:userId/merchants", authorizeUser, validateRequest("merchantAlias"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const { pattern, normalizedName, category } = req.body;
+
+    await userService.assertUserExists(userId);
+    const alias = await userRuleService.createMerchantAlias(userId, { pattern, normalizedName, category });
+
+    sendCreated(res, alias, "Merchant alias added successfully");
+}));
+
+/**
+ * Update one of the user's merchant aliases
+ */
+app.patch("/:userId/merchants/:aliasId", authorizeUser, validateRequest("merchantAliasUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId, aliasId } = req.params;
+    const { pattern, normalizedName, category } = req.body;
+
+    const alias = await userRuleService.updateMerchantAlias(userId, aliasId, { pattern, normalizedName, category });
+
+    sendSuccess(res, alias, "Merchant alias updated successfully");
+}));
+
+/**
+ * Delete one of the user's merchant aliases
+ */
+app.delete("/:userId/merchants/:aliasId", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, aliasId } = req.params;
+
+    await userRuleService.deleteMerchantAlias(userId, aliasId);
+
+    sendSuccess(res, { id: aliasId }, "Merchant alias deleted successfully");
+}));
+
+/**
+ * Get the merchant -> category mappings learned from the user's corrections
+ */
+app.get("/:userId/learned-categories", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const feedback = await userRuleService.listCategoryFeedback(userId);
+
+    sendSuccess(res, feedback, "Learned categories retrieved successfully");
+}));
+
+/**
+ * Forget a learned merchant -> category mapping
+ */
+app.delete("/:userId/learned-categories/:feedbackId", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, feedbackId } = req.params;
+
+    await userRuleService.deleteCategoryFeedback(userId, feedbackId);
+
+    sendSuccess(res, { id: feedbackId }, "Learned category deleted successfully");
+}));
+
+/**
+ * Spending analytics: totals per currency grouped by category, merchant, month, week or day
+ * Counts debits (spend) by default; pass direction=credit for income such as salary and refunds,
+ * and inHomeCurrency=true to convert every amount to the user's home currency
+ */
+app.get("/:userId/analytics", authorizeUser, validateAnalyticsQuery, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const { groupBy = "category", dateFrom, dateTo, direction = "debit", inHomeCurrency } = req.query;
+
+    // Also confirms the user exists
+    const homeCurrency = await userService.getHomeCurrency(userId);
+    const summary = await analyticsService.getSpendingSummary(userId, {
+        groupBy: groupBy as AnalyticsGroupBy,
+        dateFrom: dateFrom as string | undefined,
+        dateTo: dateTo as string | undefined,
+        direction: direction as TransactionDirection,
+        homeCurrency: inHomeCurrency === "true" ? homeCurrency : undefined,
+    });
+
+    sendSuccess(res, summary, "Spending analytics retrieved successfully");
+}));
+
+/**
+ * Monthly totals by category, merchant and currency, kept up to date as transactions are written
+ * Cheaper than analytics for long ledgers since nothing is scanned; query month=YYYY-MM for a single month
+ */
+app.get("/:userId/summaries", authorizeUser, validateMonthQuery, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const summaries = await summaryService.listSummaries(userId, req.query.month as string | undefined);
+
+    sendSuccess(res, summaries, "Monthly summaries retrieved successfully");
+}));
+
+/**
+ * Recompute the user's monthly summaries from their stored transactions (admin only)
+ */
+app.post("/:userId/summaries/rebuild", requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const summaries = await summaryService.rebuildSummaries(userId);
+
+    sendSuccess(res, summaries, "Monthly summaries rebuilt successfully");
+}));
+
+/**
+ * Get the user's monthly category budgets
+ */
+app.get("/:userId/budgets", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const budgets = await budgetService.listBudgets(userId);
+
+    sendSuccess(res, budgets, "Budgets retrieved successfully");
+}));
+
+/**
+ * Spent, remaining and projected end-of-month spend per budget for a month (query: month=YYYY-MM, default this month)
+ */
+app.get("/:userId/budgets/status", authorizeUser, validateMonthQuery, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const status = await budgetService.getBudgetStatus(userId, req.query.month as string | undefined);
+
+    sendSuccess(res, status, "Budget status retrieved successfully");
+}));
+
+/**
+ * Set a monthly limit for one of the user's categories, in their home currency
+ */
+app.post("/:userId/budgets", authorizeUser, validateRequest("budget"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const category = req.body.category.trim();
+
+    // Also confirms the user exists
+    const currency = await userService.getHomeCurrency(userId);
+    await assertBudgetCategory(userId, category);
+    const budget = await budgetService.createBudget(userId, { category, limit: req.body.limit, currency });
+
+    sendCreated(res, budget, `Budget for '${category}' created successfully`);
+}));
+
+/**
+ * Get a single budget
+ */
+app.get("/:userId/budgets/:budgetId", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, budgetId } = req.params;
+
+    const budget = await budgetService.getBudget(userId, budgetId);
+
+    sendSuccess(res, budget, "Budget retrieved successfully");
+}));
+
+/**
+ * Change a budget's category or limit
+ */
+app.patch("/:userId/budgets/:budgetId", authorizeUser, validateRequest("budgetUpdate"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId, budgetId } = req.params;
+    const category = req.body.category?.trim();
+
+    if (category !== undefined) {
+        await assertBudgetCategory(userId, category);
+    }
+    const budget = await budgetService.updateBudget(userId, budgetId, { category, limit: req.body.limit });
+
+    sendSuccess(res, budget, "Budget updated successfully");
+}));
+
+/**
+ * Delete a budget
+ */
+app.delete("/:userId/budgets/:budgetId", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, budgetId } = req.params;
+
+    await budgetService.deleteBudget(userId, budgetId);
+
+    sendSuccess(res, { id: budgetId }, "Budget deleted successfully");
+}));
+
+/**
+ * Get the user's notifications, newest first (query: unread=true for unread ones only)
+ */
+app.get("/:userId/notifications", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+
+    await userService.assertUserExists(userId);
+    const notifications = await notificationService.listNotifications(userId, req.query.unread === "true");
+
+    sendSuccess(res, notifications, "Notifications retrieved successfully");
+}));
+
+/**
+ * Mark a notification as read
+ */
+app.post("/:userId/notifications/:notificationId/read", authorizeUser, asyncHandler(async (req: Request, res: Response) => {
+    const { userId, notificationId } = req.params;
+
+    const notification = await notificationService.markRead(userId, notificationId);
+
+    sendSuccess(res, notification, "Notification marked as read");
+}));
+
+/**
+ * Grant or revoke the admin role (admin only)
+ */
+app.put("/:userId/admin", requireAdmin, validateRequest("adminRole"), asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const { admin } = req.body;
+
+    await setAdminClaim(userId, admin);
+
+    sendSuccess(res, { id: userId, admin }, `Admin role ${admin ? "granted" : "revoked"} successfully`);
+}));
+
+// Apply error handling middleware
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+export default app;
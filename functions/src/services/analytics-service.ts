@@ -0,0 +1,268 @@
+import { admin } from "../config/firebase";
+import {
+    AnalyticsGroup,
+    AnalyticsGroupBy,
+    CurrencyDelta,
+    CurrencyTotals,
+    HomeAmount,
+    SpendingSummary,
+    TransactionDirection,
+} from "../routes/transactions/types";
+import { addDays, daysBetween, parseIsoDate, toIsoDate, toLocalIsoDate } from "../routes/transactions/dates";
+import { CurrencyConverter, FxService } from "./fx-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * Minimal projection of a stored transaction needed for aggregation
+ */
+interface AnalyticsRow {
+    amount: number;
+    currency: string;
+    category: string;
+    merchant: string;
+    date: string;
+    direction: TransactionDirection;
+    home?: HomeAmount;
+}
+
+/**
+ * Service class for spending analytics over stored transactions
+ */
+export class AnalyticsService {
+    private readonly db = admin.firestore();
+    private readonly fxService = new FxService();
+
+    /**
+     * Spend (or, for direction "credit", income) totals grouped by category, merchant or period, broken out per currency
+     * Each group is compared to the previous period: the equal-length window before the range for
+     * category/merchant groups, and the preceding bucket for month/week/day groups.
+     * With a homeCurrency every amount is reported in it; transactions without an exchange rate keep their own currency
+     */
+    async getSpendingSummary(
+        userId: string,
+        options: {
+            groupBy: AnalyticsGroupBy;
+            dateFrom?: string;
+            dateTo?: string;
+            direction?: TransactionDirection;
+            homeCurrency?: string;
+        }
+    ): Promise<SpendingSummary> {
+        const { groupBy, direction = "debit", homeCurrency } = options;
+        const dateTo = options.dateTo || toLocalIsoDate();
+        const dateFrom = options.dateFrom || addDays(dateTo, -(DEFAULT_RANGE_DAYS - 1));
+
+        const spanDays = daysBetween(dateFrom, dateTo) + 1;
+        const previousTo = addDays(dateFrom, -1);
+        const previousFrom = addDays(previousTo, -(spanDays - 1));
+
+        // For period groups the first bucket's predecessor may start before the previous window
+        const lookbackFrom = groupBy === "category" || groupBy === "merchant" ?
+            previousFrom :
+            minDate(previousFrom, bucketStart(addDays(bucketStart(dateFrom, groupBy), -1), groupBy));
+
+        const converter = homeCurrency ? await this.fxService.getConverter(homeCurrency) : undefined;
+        const rows = (await this.loadRows(userId, lookbackFrom, dateTo))
+            .filter((row) => row.direction === direction)
+            .map((row) => converter ? toHomeCurrency(row, converter) : row);
+        const currentRows = rows.filter((row) => row.date >= dateFrom);
+        const previousRows = rows.filter((row) => row.date >= previousFrom && row.date <= previousTo);
+
+        const current = groupRows(currentRows, groupBy);
+        const groups: AnalyticsGroup[] = [];
+
+        if (groupBy === "category" || groupBy === "merchant") {
+            const previous = groupRows(previousRows, groupBy);
+            current.forEach((totals, key) => {
+                groups.push(toGroup(key, totals, previous.get(key) || {}));
+            });
+            groups.sort((a, b) => b.count - a.count);
+        } else {
+            const all = groupRows(rows, groupBy);
+            current.forEach((totals, key) => {
+                const previousKey = bucketKey(addDays(bucketStart(key, groupBy), -1), groupBy);
+                groups.push(toGroup(key, totals, all.get(previousKey) || {}));
+            });
+            groups.sort((a, b) => a.key.localeCompare(b.key));
+        }
+
+        const totals = sumByCurrency(currentRows);
+        const previousTotals = sumByCurrency(previousRows);
+
+        return {
+            groupBy,
+            direction,
+            ...(homeCurrency && {
+                homeCurrency,
+                unconverted: currentRows.filter((row) => row.currency !== homeCurrency).length,
+            }),
+            range: { dateFrom, dateTo },
+            previousRange: { dateFrom: previousFrom, dateTo: previousTo },
+            totals: {
+                byCurrency: totals,
+                count: currentRows.length,
+            },
+            comparison: compareTotals(totals, previousTotals),
+            groups,
+        };
+    }
+
+    /**
+     * Load the fields needed for aggregation for every transaction dated within the range
+     */
+    private async loadRows(userId: string, dateFrom: string, dateTo: string): Promise<AnalyticsRow[]> {
+        const snapshot = await this.db
+            .collection("users")
+            .doc(userId)
+            .collection("transactions")
+            .where("date", ">=", dateFrom)
+            .where("date", "<=", dateTo)
+            .select("amount", "currency", "category", "merchant", "date", "direction", "home")
+            .get();
+
+        return snapshot.docs.map((doc) => ({
+            amount: Number(doc.get("amount")) || 0,
+            currency: doc.get("currency") || "SAR",
+            category: doc.get("category") || "Other",
+            merchant: doc.get("merchant") || "Unknown Merchant",
+            date: doc.get("date"),
+            // Transactions stored before direction detection are treated as spend
+            direction: doc.get("direction") === "credit" ? "credit" : "debit",
+            home: doc.get("home"),
+        }));
+    }
+}
+
+// ==================== AGGREGATION HELPERS ====================
+
+/**
+ * Restate a row in the home currency, preferring the amount stamped when it was stored
+ * Rows with no exchange rate are returned unchanged
+ */
+function toHomeCurrency(row: AnalyticsRow, converter: CurrencyConverter): AnalyticsRow {
+    const home = row.home?.currency === converter.currency ?
+        row.home :
+        converter.convert(row.amount, row.currency, row.date);
+    return home ? { ...row, amount: home.amount, currency: home.currency } : row;
+}
+
+/**
+ * Group rows by the requested dimension, summing per currency
+ */
+function groupRows(rows: AnalyticsRow[], groupBy: AnalyticsGroupBy): Map<string, CurrencyTotals> {
+    const groups = new Map<string, AnalyticsRow[]>();
+    rows.forEach((row) => {
+        const key = groupBy === "category" ? row.category :
+            groupBy === "merchant" ? row.merchant :
+                bucketKey(row.date, groupBy);
+        groups.set(key, [...(groups.get(key) || []), row]);
+    });
+
+    const result = new Map<string, CurrencyTotals>();
+    groups.forEach((groupRows, key) => result.set(key, sumByCurrency(groupRows)));
+    return result;
+}
+
+/**
+ * Total amount and count per currency
+ */
+function sumByCurrency(rows: AnalyticsRow[]): CurrencyTotals {
+    const totals: CurrencyTotals = {};
+    rows.forEach((row) => {
+        const entry = totals[row.currency] || { total: 0, count: 0 };
+        entry.total = round(entry.total + row.amount);
+        entry.count += 1;
+        totals[row.currency] = entry;
+    });
+    return totals;
+}
+
+/**
+ * Build a group entry with its delta against the previous period
+ */
+function toGroup(key: string, totals: CurrencyTotals, previous: CurrencyTotals): AnalyticsGroup {
+    return {
+        key,
+        byCurrency: totals,
+        count: Object.values(totals).reduce((sum, entry) => sum + entry.count, 0),
+        delta: compareTotals(totals, previous),
+    };
+}
+
+/**
+ * Per-currency change between two periods; changePercent is null when there was no previous spend
+ */
+function compareTotals(current: CurrencyTotals, previous: CurrencyTotals): Record<string, CurrencyDelta> {
+    const currencies = new Set([...Object.keys(current), ...Object.keys(previous)]);
+    const result: Record<string, CurrencyDelta> = {};
+
+    currencies.forEach((currency) => {
+        const now = current[currency]?.total || 0;
+        const before = previous[currency]?.total || 0;
+        result[currency] = {
+            current: now,
+            previous: before,
+            change: round(now - before),
+            changePercent: before === 0 ? null : round(((now - before) / before) * 100),
+        };
+    });
+
+    return result;
+}
+
+// ==================== DATE HELPERS ====================
+
+/**
+ * Bucket key for a YYYY-MM-DD date: YYYY-MM, ISO week YYYY-Www, or the date itself
+ */
+function bucketKey(date: string, groupBy: AnalyticsGroupBy): string {
+    if (groupBy === "month") {
+        return date.slice(0, 7);
+    }
+    if (groupBy === "week") {
+        const day = parseIsoDate(date);
+        // ISO weeks belong to the year of their Thursday
+        const thursday = new Date(day.getTime() + (3 - ((day.getUTCDay() + 6) % 7)) * DAY_MS);
+        const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+        const week = Math.floor((thursday.getTime() - yearStart) / (7 * DAY_MS)) + 1;
+        return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+    }
+    return date;
+}
+
+/**
+ * First day (YYYY-MM-DD) of the bucket containing a date or identified by a bucket key
+ */
+function bucketStart(dateOrKey: string, groupBy: AnalyticsGroupBy): string {
+    if (groupBy === "month") {
+        return `${dateOrKey.slice(0, 7)}-01`;
+    }
+    if (groupBy === "week") {
+        const weekMatch = dateOrKey.match(/^(\d{4})-W(\d{2})$/);
+        if (weekMatch) {
+            // Monday of ISO week 1 is the Monday on or before January 4th
+            const jan4 = Date.UTC(Number(weekMatch[1]), 0, 4);
+            const week1Monday = jan4 - ((new Date(jan4).getUTCDay() + 6) % 7) * DAY_MS;
+            return toIsoDate(new Date(week1Monday + (Number(weekMatch[2]) - 1) * 7 * DAY_MS));
+        }
+        const day = parseIsoDate(dateOrKey);
+        return toIsoDate(new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS));
+    }
+    return dateOrKey;
+}
+
+/**
+ * Earlier of two YYYY-MM-DD dates
+ */
+function minDate(a: string, b: string): string {
+    return a < b ? a : b;
+}
+
+/**
+ * Round to 2 decimal places to keep currency sums tidy
+ */
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
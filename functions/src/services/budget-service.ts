@@ -0,0 +1,305 @@
+import { admin, Timestamp } from "../config/firebase";
+import { BUDGET_ALERT_THRESHOLDS } from "../routes/transactions/const";
+import { daysInMonth, toLocalIsoDate } from "../routes/transactions/dates";
+import { Budget, BudgetStatus, HomeAmount, UserNotification } from "../routes/transactions/types";
+import { CurrencyConverter, FxService } from "./fx-service";
+import { NotificationService } from "./notification-service";
+
+/**
+ * Minimal projection of a stored transaction needed to total a budget
+ */
+interface SpendRow {
+    amount: number;
+    currency: string;
+    category: string;
+    date: string;
+    home?: HomeAmount;
+}
+
+/**
+ * Service class for monthly category budgets, stored under users/{id}/budgets
+ * Spend is totalled from the stored debits of the month, so edited and deleted transactions are always reflected.
+ * Threshold notifications are checked for every transaction write by the aggregateMonthlySummaries trigger.
+ */
+export class BudgetService {
+    private readonly db = admin.firestore();
+    private readonly fxService = new FxService();
+    private readonly notificationService = new NotificationService();
+
+    /**
+     * List the user's budgets by category
+     */
+    async listBudgets(userId: string): Promise<Budget[]> {
+        const snapshot = await this.budgetsCollection(userId).orderBy("category", "asc").get();
+
+        return snapshot.docs.map(toBudget);
+    }
+
+    /**
+     * Get a single budget
+     */
+    async getBudget(userId: string, budgetId: string): Promise<Budget> {
+        const doc = await this.budgetsCollection(userId).doc(budgetId).get();
+        if (!doc.exists) {
+            throw new Error("Budget not found");
+        }
+        return toBudget(doc);
+    }
+
+    /**
+     * Set a monthly limit for a category; a category has at most one budget
+     */
+    async createBudget(userId: string, budget: { category: string; limit: number; currency: string }): Promise<Budget> {
+        await this.assertCategoryFree(userId, budget.category);
+
+        const docRef = this.budgetsCollection(userId).doc();
+        await docRef.set({ ...budget, createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+
+        return { id: docRef.id, ...budget };
+    }
+
+    /**
+     * Change a budget's limit or category
+     */
+    async updateBudget(userId: string, budgetId: string, updates: { category?: string; limit?: number }): Promise<Budget> {
+        const current = await this.getBudget(userId, budgetId);
+        if (updates.category !== undefined && updates.category !== current.category) {
+            await this.assertCategoryFree(userId, updates.category);
+        }
+
+        const changes = {
+            ...(updates.category !== undefined && { category: updates.category }),
+            ...(updates.limit !== undefined && { limit: updates.limit }),
+        };
+        await this.budgetsCollection(userId).doc(budgetId).update({ ...changes, updatedAt: Timestamp.now() });
+
+        return { ...current, ...changes };
+    }
+
+    /**
+     * Delete a budget
+     */
+    async deleteBudget(userId: string, budgetId: string): Promise<void> {
+        await this.getBudget(userId, budgetId);
+        await this.budgetsCollection(userId).doc(budgetId).delete();
+    }
+
+    /**
+     * Spent, remaining and projected end-of-month spend of every budget for a month (YYYY-MM, default this month)
+     */
+    async getBudgetStatus(userId: string, month: string = toLocalIsoDate().slice(0, 7)): Promise<BudgetStatus[]> {
+        const budgets = await this.listBudgets(userId);
+        if (budgets.length === 0) {
+            return [];
+        }
+
+        const rows = await this.loadSpendRows(userId, month);
+        const converters = await this.loadConverters(budgets);
+
+        return budgets.map((budget) => toBudgetStatus(
+            budget,
+            month,
+            rows.filter((row) => row.category === budget.category),
+            converters.get(budget.currency) as CurrencyConverter
+        ));
+    }
+
+    /**
+     * Check one write to a stored transaction (create, edit or merge) against its category's budget
+     * When the write takes the month's spend past one of BUDGET_ALERT_THRESHOLDS, a notification is written;
+     * each threshold notifies once per budget and month, so a retried event writes nothing new.
+     * Returns the new notifications.
+     */
+    async recordWrite(
+        userId: string,
+        transactionId: string,
+        before: admin.firestore.DocumentData | undefined,
+        after: admin.firestore.DocumentData | undefined
+    ): Promise<UserNotification[]> {
+        // Transactions stored before direction detection are treated as spend. A delete adds nothing and
+        // never notifies, so deleting a user writes no notifications
+        const added = after && after.direction !== "credit" ? toSpendRow(after) : undefined;
+        const removed = before && before.direction !== "credit" ? toSpendRow(before) : undefined;
+        if (!added || JSON.stringify(removed) === JSON.stringify(added)) {
+            return [];
+        }
+
+        const snapshot = await this.budgetsCollection(userId).where("category", "==", added.category).limit(1).get();
+        if (snapshot.empty) {
+            return [];
+        }
+
+        const budget = toBudget(snapshot.docs[0]);
+        const month = added.date.slice(0, 7);
+        const converter = await this.fxService.getConverter(budget.currency);
+
+        // The write has already happened, so the month's total includes it; take out what it changed
+        const counted = (row: SpendRow | undefined) =>
+            row && row.category === budget.category && row.date.slice(0, 7) === month ?
+                budgetAmount(row, budget, converter) || 0 :
+                0;
+        const rows = await this.loadSpendRows(userId, month, budget.category);
+        const { spent } = toBudgetStatus(budget, month, rows, converter);
+        const spentBefore = spent - counted(added) + counted(removed);
+
+        const crossed = crossedThresholds(budget.limit, spentBefore, spent);
+
+        return this.notificationService.notifyOnce(userId, crossed.map((threshold) => ({
+            id: `budget_${budget.id}_${month}_${threshold}`,
+            type: "budget_threshold",
+            read: false,
+            budgetId: budget.id,
+            category: budget.category,
+            month,
+            threshold,
+            spent,
+            limit: budget.limit,
+            currency: budget.currency,
+            transactionId,
+        })));
+    }
+
+    /**
+     * Reject a category that already has a budget
+     */
+    private async assertCategoryFree(userId: string, category: string): Promise<void> {
+        const snapshot = await this.budgetsCollection(userId).where("category", "==", category).limit(1).get();
+        if (!snapshot.empty) {
+            throw new Error(`Budget for ${category} already exists`);
+        }
+    }
+
+    /**
+     * Load the debits dated within a month, optionally for one category
+     */
+    private async loadSpendRows(userId: string, month: string, category?: string): Promise<SpendRow[]> {
+        const [year, monthNumber] = month.split("-").map(Number);
+        let query: admin.firestore.Query = this.db
+            .collection("users")
+            .doc(userId)
+            .collection("transactions");
+        if (category) {
+            query = query.where("category", "==", category);
+        }
+
+        const snapshot = await query
+            .where("date", ">=", `${month}-01`)
+            .where("date", "<=", `${month}-${String(daysInMonth(year, monthNumber)).padStart(2, "0")}`)
+            .select("amount", "currency", "category", "date", "direction", "home")
+            .get();
+
+        // Transactions stored before direction detection are treated as spend
+        return snapshot.docs
+            .filter((doc) => doc.get("direction") !== "credit")
+            .map((doc) => toSpendRow(doc.data()) as SpendRow);
+    }
+
+    /**
+     * One converter per budget currency
+     */
+    private async loadConverters(budgets: Budget[]): Promise<Map<string, CurrencyConverter>> {
+        const currencies = [...new Set(budgets.map((budget) => budget.currency))];
+        const converters = await Promise.all(currencies.map((currency) => this.fxService.getConverter(currency)));
+
+        return new Map(converters.map((converter) => [converter.currency, converter]));
+    }
+
+    /**
+     * users/{id}/budgets collection reference
+     */
+    private budgetsCollection(userId: string) {
+        return this.db.collection("users").doc(userId).collection("budgets");
+    }
+}
+
+/**
+ * Total a budget's rows for the month in its currency and project the month-end spend
+ * The current month is projected at the daily pace so far; past months are final and future ones empty
+ */
+function toBudgetStatus(budget: Budget, month: string, rows: SpendRow[], converter: CurrencyConverter): BudgetStatus {
+    let spent = 0;
+    let unconverted = 0;
+    rows.forEach((row) => {
+        const amount = budgetAmount(row, budget, converter);
+        if (amount !== undefined) {
+            spent += amount;
+        } else {
+            unconverted++;
+        }
+    });
+
+    const today = toLocalIsoDate();
+    const [year, monthNumber] = month.split("-").map(Number);
+    const days = daysInMonth(year, monthNumber);
+    const projected = month === today.slice(0, 7) ?
+        spent / Number(today.slice(8, 10)) * days :
+        spent;
+
+    return {
+        ...budget,
+        month,
+        spent: round(spent),
+        remaining: round(budget.limit - spent),
+        percentUsed: round(spent / budget.limit * 100),
+        projected: round(projected),
+        count: rows.length - unconverted,
+        unconverted,
+    };
+}
+
+/**
+ * A row's amount in the budget's currency, preferring the amount stamped when it was stored
+ * Undefined when there is no exchange rate
+ */
+function budgetAmount(row: SpendRow, budget: Budget, converter: CurrencyConverter): number | undefined {
+    const amount = row.home?.currency === budget.currency ?
+        row.home :
+        converter.convert(row.amount, row.currency, row.date);
+    return amount?.amount;
+}
+
+/**
+ * The thresholds (percent of the limit) that spend reached going from one total to another
+ */
+export function crossedThresholds(limit: number, spentBefore: number, spent: number): number[] {
+    return BUDGET_ALERT_THRESHOLDS.filter((threshold) => {
+        const line = limit * threshold / 100;
+        return spentBefore < line && spent >= line;
+    });
+}
+
+/**
+ * The counted fields of a stored transaction; undefined without a usable date
+ */
+function toSpendRow(data: admin.firestore.DocumentData): SpendRow | undefined {
+    if (typeof data.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(data.date)) {
+        return undefined;
+    }
+    return {
+        amount: Number(data.amount) || 0,
+        currency: data.currency || "SAR",
+        category: data.category || "Other",
+        date: data.date,
+        home: data.home,
+    };
+}
+
+/**
+ * Round to 2 decimal places
+ */
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Map a Firestore document to a budget
+ */
+function toBudget(doc: admin.firestore.DocumentSnapshot): Budget {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        category: data.category,
+        limit: data.limit,
+        currency: data.currency,
+    };
+}
@@ -0,0 +1,278 @@
+import { admin, Timestamp } from "../config/firebase";
+import { FieldValue } from "firebase-admin/firestore";
+import { DEFAULT_EXCHANGE_RATES, EXCHANGE_RATES_MAX_ROWS, FX_BASE_CURRENCY } from "../routes/transactions/const";
+import { isValidIsoDate } from "../routes/transactions/dates";
+import { ExchangeRate, HomeAmount } from "../routes/transactions/types";
+
+/**
+ * Firestore batches are limited to 500 writes
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * In-process cache of the exchange-rate table, keyed by the version counter in config/fxStore
+ * Rates are grouped per currency, oldest first
+ */
+let rateCache: {
+    version: number;
+    rates: Map<string, ExchangeRate[]>;
+} | null = null;
+
+/**
+ * Converts amounts into one home currency using a snapshot of the rate table
+ */
+export interface CurrencyConverter {
+    currency: string;
+    convert: (amount: number, currency: string, date: string) => HomeAmount | undefined;
+}
+
+/**
+ * Service class for the locally stored exchange-rate table
+ * Rates live in `exchangeRates`, one document per currency and effective date, quoted in SAR.
+ * The table is seeded from the const.ts defaults and maintained by admins; no live FX service is called.
+ */
+export class FxService {
+    private readonly db = admin.firestore();
+    private readonly ratesCollection = this.db.collection("exchangeRates");
+    private readonly metaRef = this.db.collection("config").doc("fxStore");
+
+    /**
+     * List exchange rates, by currency and newest first, optionally for one currency
+     */
+    async listRates(currency?: string): Promise<ExchangeRate[]> {
+        const cache = await this.loadCache();
+        const currencies = currency ? [currency] : [...cache.rates.keys()].sort();
+
+        return currencies.reduce<ExchangeRate[]>((rows, code) =>
+            rows.concat([...(cache.rates.get(code) || [])].reverse()), []);
+    }
+
+    /**
+     * Add or replace rates; a row for an existing currency and date overwrites it
+     */
+    async upsertRates(rates: ExchangeRate[]): Promise<ExchangeRate[]> {
+        await this.ensureSeeded();
+
+        for (let start = 0; start < rates.length; start += BATCH_SIZE) {
+            const batch = this.db.batch();
+            rates.slice(start, start + BATCH_SIZE).forEach((rate) => {
+                batch.set(this.ratesCollection.doc(rateId(rate.currency, rate.date)), {
+                    ...rate,
+                    updatedAt: Timestamp.now(),
+                });
+            });
+            await batch.commit();
+        }
+        await this.bumpVersion();
+
+        return rates;
+    }
+
+    /**
+     * Import rates from CSV text with `currency,date,rate` rows
+     * A header row, blank lines and lines starting with # are skipped
+     */
+    async importCsv(csv: string): Promise<ExchangeRate[]> {
+        return this.upsertRates(parseRatesCsv(csv));
+    }
+
+    /**
+     * Delete one rate row
+     */
+    async deleteRate(currency: string, date: string): Promise<void> {
+        await this.ensureSeeded();
+        const docRef = this.ratesCollection.doc(rateId(currency, date));
+        if (!(await docRef.get()).exists) {
+            throw new Error(`Exchange rate for ${currency} on ${date} not found`);
+        }
+        await docRef.delete();
+        await this.bumpVersion();
+    }
+
+    /**
+     * Whether amounts in the currency can be converted, i.e. it is the base currency or has a rate
+     */
+    async isSupportedCurrency(currency: string): Promise<boolean> {
+        const cache = await this.loadCache();
+        return currency === FX_BASE_CURRENCY || cache.rates.has(currency);
+    }
+
+    /**
+     * Converter into the given home currency over the current rate table
+     * Load it once per request and reuse it for every transaction
+     */
+    async getConverter(homeCurrency: string): Promise<CurrencyConverter> {
+        const cache = await this.loadCache();
+        return {
+            currency: homeCurrency,
+            convert: (amount, currency, date) => convert(cache.rates, amount, currency, homeCurrency, date),
+        };
+    }
+
+    /**
+     * Drop the local cache so the next read reloads from Firestore
+     */
+    invalidateCache(): void {
+        rateCache = null;
+    }
+
+    /**
+     * Return the cached table, reloading it when the stored version moved on
+     */
+    private async loadCache(): Promise<NonNullable<typeof rateCache>> {
+        const version = await this.ensureSeeded();
+        if (rateCache && rateCache.version === version) {
+            return rateCache;
+        }
+
+        const snapshot = await this.ratesCollection.orderBy("date", "asc").get();
+        const rates = new Map<string, ExchangeRate[]>();
+        snapshot.docs.forEach((doc) => {
+            const rate: ExchangeRate = { currency: doc.get("currency"), date: doc.get("date"), rate: doc.get("rate") };
+            rates.set(rate.currency, [...(rates.get(rate.currency) || []), rate]);
+        });
+
+        rateCache = { version, rates };
+        return rateCache;
+    }
+
+    /**
+     * Seed the table from the const.ts defaults if it has never been initialized
+     * Returns the current store version
+     */
+    private async ensureSeeded(): Promise<number> {
+        const meta = await this.metaRef.get();
+        if (meta.exists) {
+            return meta.get("version");
+        }
+
+        return this.db.runTransaction(async (tx) => {
+            const current = await tx.get(this.metaRef);
+            if (current.exists) {
+                return current.get("version") as number;
+            }
+
+            DEFAULT_EXCHANGE_RATES.forEach((rate) => {
+                tx.set(this.ratesCollection.doc(rateId(rate.currency, rate.date)), {
+                    ...rate,
+                    updatedAt: Timestamp.now(),
+                });
+            });
+
+            tx.set(this.metaRef, {
+                version: 1,
+                seededAt: Timestamp.now(),
+                updatedAt: Timestamp.now(),
+            });
+
+            return 1;
+        });
+    }
+
+    /**
+     * Record a write so every instance reloads its cache on the next read
+     */
+    private async bumpVersion(): Promise<void> {
+        await this.metaRef.update({
+            version: FieldValue.increment(1),
+            updatedAt: Timestamp.now(),
+        });
+        this.invalidateCache();
+    }
+}
+
+/**
+ * Convert an amount between two currencies through the base currency
+ * Undefined when either currency has no rate
+ */
+export function convert(
+    rates: Map<string, ExchangeRate[]>,
+    amount: number,
+    from: string,
+    to: string,
+    date: string
+): HomeAmount | undefined {
+    if (from === to) {
+        return { amount, currency: to, rate: 1, rateDate: date };
+    }
+
+    const fromRate = rateOn(rates, from, date);
+    const toRate = rateOn(rates, to, date);
+    if (!fromRate || !toRate) {
+        return undefined;
+    }
+
+    const rate = fromRate.rate / toRate.rate;
+    return {
+        amount: Math.round(amount * rate * 100) / 100,
+        currency: to,
+        rate: Math.round(rate * 1e6) / 1e6,
+        rateDate: fromRate.date < toRate.date ? fromRate.date : toRate.date,
+    };
+}
+
+/**
+ * The rate in effect on a date: the latest on or before it, or the earliest one for older dates
+ * The base currency is always 1
+ */
+export function rateOn(rates: Map<string, ExchangeRate[]>, currency: string, date: string): ExchangeRate | undefined {
+    if (currency === FX_BASE_CURRENCY) {
+        return { currency, date, rate: 1 };
+    }
+
+    const history = rates.get(currency);
+    if (!history || history.length === 0) {
+        return undefined;
+    }
+
+    let effective = history[0];
+    for (const rate of history) {
+        if (rate.date > date) break;
+        effective = rate;
+    }
+    return effective;
+}
+
+/**
+ * Parse `currency,date,rate` CSV rows, naming the first bad line
+ */
+export function parseRatesCsv(csv: string): ExchangeRate[] {
+    const rates: ExchangeRate[] = [];
+
+    csv.split(/\r?\n/).forEach((line, index) => {
+        const cells = line.split(",").map((cell) => cell.trim());
+        const isHeader = cells[0].toLowerCase() === "currency";
+        if (!line.trim() || line.trim().startsWith("#") || (rates.length === 0 && isHeader)) {
+            return;
+        }
+
+        const [currency, date, rateText] = cells;
+        const rate = Number(rateText);
+        const problem = isHeader ? "a currency,date,rate header may only come before the first rate" :
+            cells.length !== 3 ? "expected currency,date,rate" :
+                !/^[A-Z]{3}$/.test(currency) ? `'${currency}' is not a 3-letter ISO currency code` :
+                    currency === FX_BASE_CURRENCY ? `${FX_BASE_CURRENCY} is the base currency and always 1` :
+                        !isValidIsoDate(date) ? `'${date}' is not a YYYY-MM-DD date` :
+                            !(rate > 0) ? `'${rateText}' is not a positive rate` :
+                                undefined;
+        if (problem) {
+            throw new Error(`Exchange rate file is invalid: line ${index + 1}: ${problem}`);
+        }
+        rates.push({ currency, date, rate });
+    });
+
+    if (rates.length === 0) {
+        throw new Error("Exchange rate file is invalid: it contains no rates");
+    }
+    if (rates.length > EXCHANGE_RATES_MAX_ROWS) {
+        throw new Error(`Exchange rate file is invalid: more than ${EXCHANGE_RATES_MAX_ROWS} rates`);
+    }
+    return rates;
+}
+
+/**
+ * Document ID of a rate row, e.g. USD_2025-01-01
+ */
+function rateId(currency: string, date: string): string {
+    return `${currency}_${date}`;
+}
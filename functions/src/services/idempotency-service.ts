@@ -0,0 +1,87 @@
+import { createHash } from "crypto";
+import { admin, Timestamp } from "../config/firebase";
+import { IDEMPOTENCY_KEY_TTL_HOURS } from "../routes/transactions/const";
+
+/**
+ * A claim still "processing" after this long belongs to a request that died; matches the api function's timeout
+ */
+const PROCESSING_TIMEOUT_MS = 300 * 1000;
+
+/**
+ * A request seen before under the same Idempotency-Key
+ */
+export interface IdempotencyRecord {
+    requestHash: string;
+    status: "processing" | "completed";
+    statusCode?: number;
+    responseBody?: string; // The JSON sent the first time, replayed verbatim
+}
+
+/**
+ * Service class for Idempotency-Key bookkeeping
+ * Keys live in `idempotencyKeys`, scoped to the caller and route. Each carries an `expiresAt` timestamp;
+ * the TTL policy on that field (firestore.indexes.json fieldOverrides) deletes it once expired.
+ */
+export class IdempotencyService {
+    private readonly db = admin.firestore();
+    private readonly keysCollection = this.db.collection("idempotencyKeys");
+
+    /**
+     * Claim a key for a new request
+     * Returns the earlier request's record if the key is already taken and has not expired; expiry is checked here
+     * too because TTL deletion can lag by a day or more. An abandoned claim is taken over.
+     */
+    async claim(scope: string, key: string, requestHash: string): Promise<IdempotencyRecord | undefined> {
+        const docRef = this.keyRef(scope, key);
+
+        return this.db.runTransaction(async (tx) => {
+            const doc = await tx.get(docRef);
+            const abandoned = doc.get("status") === "processing" &&
+                doc.get("createdAt").toMillis() + PROCESSING_TIMEOUT_MS < Date.now();
+            if (doc.exists && doc.get("expiresAt").toMillis() > Date.now() && !abandoned) {
+                return {
+                    requestHash: doc.get("requestHash"),
+                    status: doc.get("status"),
+                    statusCode: doc.get("statusCode"),
+                    responseBody: doc.get("responseBody"),
+                };
+            }
+
+            tx.set(docRef, {
+                scope,
+                key,
+                requestHash,
+                status: "processing",
+                createdAt: Timestamp.now(),
+                expiresAt: Timestamp.fromMillis(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+            });
+            return undefined;
+        });
+    }
+
+    /**
+     * Record the response sent for a claimed key so retries get the same one
+     */
+    async complete(scope: string, key: string, statusCode: number, responseBody: string): Promise<void> {
+        await this.keyRef(scope, key).update({
+            status: "completed",
+            statusCode,
+            responseBody,
+            completedAt: Timestamp.now(),
+        });
+    }
+
+    /**
+     * Free a claimed key after a failure so the request can be retried
+     */
+    async release(scope: string, key: string): Promise<void> {
+        await this.keyRef(scope, key).delete();
+    }
+
+    /**
+     * Key document; hashing keeps arbitrary client keys valid as document IDs
+     */
+    private keyRef(scope: string, key: string) {
+        return this.keysCollection.doc(createHash("sha256").update(`${scope}\n${key}`).digest("hex"));
+    }
+}
@@ -0,0 +1,92 @@
+import { admin, Timestamp } from "../config/firebase";
+import { UnparsedMessage } from "../routes/transactions/types";
+import { UnparseableTransactionError } from "../routes/transactions/utils";
+
+/**
+ * Service class for the unparsed inbox: messages a strict parse rejected, kept for review
+ * Stored under users/{id}/unparsedInbox, apart from the transaction ledger
+ */
+export class InboxService {
+    private readonly db = admin.firestore();
+
+    /**
+     * File rejected messages in the user's inbox
+     */
+    async addUnparsedMessages(
+        userId: string,
+        entries: Array<{ rawText: string; error: UnparseableTransactionError }>
+    ): Promise<UnparsedMessage[]> {
+        const batch = this.db.batch();
+        const messages = entries.map(({ rawText, error }) => {
+            const docRef = this.inboxCollection(userId).doc();
+            // Explain output is only useful in the response that asked for it
+            const parseInfo = { ...error.parseInfo };
+            delete parseInfo.spans;
+            delete parseInfo.normalizedText;
+            const message = {
+                rawText,
+                missingFields: error.missingFields,
+                bankFormat: error.bankFormat,
+                parseInfo,
+            };
+            batch.set(docRef, { ...message, createdAt: Timestamp.now() });
+            return { id: docRef.id, ...message };
+        });
+
+        await batch.commit();
+        return messages;
+    }
+
+    /**
+     * List the user's unparsed messages, newest first
+     */
+    async listUnparsedMessages(userId: string): Promise<UnparsedMessage[]> {
+        const snapshot = await this.inboxCollection(userId).orderBy("createdAt", "desc").get();
+
+        return snapshot.docs.map(toUnparsedMessage);
+    }
+
+    /**
+     * Get a single unparsed message
+     */
+    async getUnparsedMessage(userId: string, messageId: string): Promise<UnparsedMessage> {
+        const doc = await this.inboxCollection(userId).doc(messageId).get();
+        if (!doc.exists) {
+            throw new Error("Unparsed message not found");
+        }
+        return toUnparsedMessage(doc);
+    }
+
+    /**
+     * Remove a message from the inbox once it has been reviewed
+     */
+    async deleteUnparsedMessage(userId: string, messageId: string): Promise<void> {
+        const docRef = this.inboxCollection(userId).doc(messageId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Unparsed message not found");
+        }
+        await docRef.delete();
+    }
+
+    /**
+     * users/{id}/unparsedInbox collection reference
+     */
+    private inboxCollection(userId: string) {
+        return this.db.collection("users").doc(userId).collection("unparsedInbox");
+    }
+}
+
+/**
+ * Map a Firestore document to an unparsed message
+ */
+function toUnparsedMessage(doc: admin.firestore.DocumentSnapshot): UnparsedMessage {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        rawText: data.rawText,
+        missingFields: data.missingFields || [],
+        bankFormat: data.bankFormat,
+        parseInfo: data.parseInfo,
+        createdAt: data.createdAt,
+    };
+}
@@ -1,3 +1,14 @@
 // Export all services from their individual files
 export { UserService } from "./user-service";
 export { TransactionService } from "./transaction-service";
+export { RuleService } from "./rule-service";
+export { UserRuleService } from "./user-rule-service";
+export { AnalyticsService } from "./analytics-service";
+export { InboxService } from "./inbox-service";
+export { TemplateService } from "./template-service";
+export { FxService } from "./fx-service";
+export { IdempotencyService } from "./idempotency-service";
+export { SubscriptionService } from "./subscription-service";
+export { BudgetService } from "./budget-service";
+export { NotificationService } from "./notification-service";
+export { SummaryService } from "./summary-service";
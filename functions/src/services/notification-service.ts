@@ -0,0 +1,86 @@
+import { admin, Timestamp } from "../config/firebase";
+import { UserNotification } from "../routes/transactions/types";
+
+/**
+ * Service class for the user's notifications, stored under users/{id}/notifications
+ */
+export class NotificationService {
+    private readonly db = admin.firestore();
+
+    /**
+     * Write notifications under fixed IDs, skipping any already written under the same ID
+     * Returns the notifications that were new
+     */
+    async notifyOnce(userId: string, notifications: UserNotification[]): Promise<UserNotification[]> {
+        if (notifications.length === 0) {
+            return [];
+        }
+
+        return this.db.runTransaction(async (tx) => {
+            const refs = notifications.map((notification) => this.notificationsCollection(userId).doc(notification.id));
+            const existing = await tx.getAll(...refs);
+
+            const created = notifications.filter((notification, index) => !existing[index].exists);
+            created.forEach((notification) => {
+                const { id, ...data } = notification;
+                tx.set(this.notificationsCollection(userId).doc(id), { ...data, createdAt: Timestamp.now() });
+            });
+            return created;
+        });
+    }
+
+    /**
+     * List the user's notifications, newest first, optionally only unread ones
+     */
+    async listNotifications(userId: string, unreadOnly = false): Promise<UserNotification[]> {
+        const query = unreadOnly ?
+            this.notificationsCollection(userId).where("read", "==", false) :
+            this.notificationsCollection(userId);
+        const snapshot = await query.get();
+
+        return snapshot.docs
+            .map(toUserNotification)
+            .sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
+    }
+
+    /**
+     * Mark a notification as read
+     */
+    async markRead(userId: string, notificationId: string): Promise<UserNotification> {
+        const docRef = this.notificationsCollection(userId).doc(notificationId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Notification not found");
+        }
+
+        await docRef.update({ read: true, readAt: Timestamp.now() });
+        return toUserNotification(await docRef.get());
+    }
+
+    /**
+     * users/{id}/notifications collection reference
+     */
+    private notificationsCollection(userId: string) {
+        return this.db.collection("users").doc(userId).collection("notifications");
+    }
+}
+
+/**
+ * Map a Firestore document to a notification
+ */
+function toUserNotification(doc: admin.firestore.DocumentSnapshot): UserNotification {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        type: data.type,
+        read: data.read === true,
+        budgetId: data.budgetId,
+        category: data.category,
+        month: data.month,
+        threshold: data.threshold,
+        spent: data.spent,
+        limit: data.limit,
+        currency: data.currency,
+        transactionId: data.transactionId,
+        createdAt: data.createdAt,
+    };
+}
@@ -0,0 +1,351 @@
+import { admin, Timestamp } from "../config/firebase";
+import { FieldValue } from "firebase-admin/firestore";
+import { CATEGORY_RULES, MERCHANT_PATTERNS } from "../routes/transactions/const";
+import { RuleSet, StoredCategoryRule, StoredMerchantPattern } from "../routes/transactions/types";
+import { stripUndefined } from "../utils/firestore";
+
+/**
+ * In-process cache of the rule store, keyed by the version counter in config/ruleStore
+ * Shared by every RuleService instance so all routers see the same rules
+ */
+let ruleCache: {
+    version: number;
+    categoryRules: StoredCategoryRule[];
+    merchantPatterns: StoredMerchantPattern[];
+    ruleSet: RuleSet;
+} | null = null;
+
+/**
+ * Service class for the Firestore-backed category rule and merchant pattern store
+ * The store is seeded from the const.ts defaults the first time it is read
+ */
+export class RuleService {
+    private readonly db = admin.firestore();
+    private readonly categoryRulesCollection = this.db.collection("categoryRules");
+    private readonly merchantPatternsCollection = this.db.collection("merchantPatterns");
+    private readonly metaRef = this.db.collection("config").doc("ruleStore");
+
+    /**
+     * Get the rules the parser should use
+     * Costs one document read per call; the full rule set is only reloaded when another write bumped the version
+     */
+    async getRuleSet(): Promise<RuleSet> {
+        const cache = await this.loadCache();
+        return cache.ruleSet;
+    }
+
+    /**
+     * List category rules, highest priority first
+     */
+    async listCategoryRules(): Promise<StoredCategoryRule[]> {
+        const cache = await this.loadCache();
+        return cache.categoryRules;
+    }
+
+    /**
+     * Get a single category rule
+     */
+    async getCategoryRule(ruleId: string): Promise<StoredCategoryRule> {
+        await this.ensureSeeded();
+        const doc = await this.categoryRulesCollection.doc(ruleId).get();
+        if (!doc.exists) {
+            throw new Error("Category rule not found");
+        }
+        return toCategoryRule(doc);
+    }
+
+    /**
+     * Create a category rule
+     */
+    async createCategoryRule(rule: { keywords: string[]; category: string; priority: number }): Promise<StoredCategoryRule> {
+        await this.ensureSeeded();
+        const docRef = await this.categoryRulesCollection.add({
+            keywords: rule.keywords,
+            category: rule.category,
+            priority: rule.priority,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+        });
+        await this.bumpVersion();
+
+        return { id: docRef.id, ...rule };
+    }
+
+    /**
+     * Update a category rule
+     */
+    async updateCategoryRule(
+        ruleId: string,
+        updates: { keywords?: string[]; category?: string; priority?: number }
+    ): Promise<StoredCategoryRule> {
+        await this.getCategoryRule(ruleId);
+        await this.categoryRulesCollection.doc(ruleId).update({
+            ...stripUndefined(updates),
+            updatedAt: Timestamp.now(),
+        });
+        await this.bumpVersion();
+
+        return this.getCategoryRule(ruleId);
+    }
+
+    /**
+     * Delete a category rule
+     */
+    async deleteCategoryRule(ruleId: string): Promise<void> {
+        await this.getCategoryRule(ruleId);
+        await this.categoryRulesCollection.doc(ruleId).delete();
+        await this.bumpVersion();
+    }
+
+    /**
+     * Reorder category rules; the first ID gets the highest priority
+     */
+    async reorderCategoryRules(ruleIds: string[]): Promise<StoredCategoryRule[]> {
+        await this.reorder(this.categoryRulesCollection, ruleIds, "Category rule");
+        return this.listCategoryRules();
+    }
+
+    /**
+     * List merchant patterns, highest priority first
+     */
+    async listMerchantPatterns(): Promise<StoredMerchantPattern[]> {
+        const cache = await this.loadCache();
+        return cache.merchantPatterns;
+    }
+
+    /**
+     * Get a single merchant pattern
+     */
+    async getMerchantPattern(patternId: string): Promise<StoredMerchantPattern> {
+        await this.ensureSeeded();
+        const doc = await this.merchantPatternsCollection.doc(patternId).get();
+        if (!doc.exists) {
+            throw new Error("Merchant pattern not found");
+        }
+        return toMerchantPattern(doc);
+    }
+
+    /**
+     * Create a merchant pattern
+     * Without an explicit priority the pattern is tried after every existing one
+     */
+    async createMerchantPattern(pattern: {
+        pattern: string;
+        normalizedName: string;
+        category?: string;
+        priority?: number;
+    }): Promise<StoredMerchantPattern> {
+        const existing = await this.listMerchantPatterns();
+        const lowest = existing.length > 0 ? existing[existing.length - 1].priority : 10;
+        const data = {
+            pattern: pattern.pattern,
+            flags: "i",
+            normalizedName: pattern.normalizedName,
+            priority: pattern.priority ?? Math.max(lowest - 10, 0),
+            ...(pattern.category && { category: pattern.category }),
+        };
+
+        const docRef = await this.merchantPatternsCollection.add({
+            ...data,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+        });
+        await this.bumpVersion();
+
+        return { id: docRef.id, ...data };
+    }
+
+    /**
+     * Update a merchant pattern
+     */
+    async updateMerchantPattern(
+        patternId: string,
+        updates: { pattern?: string; normalizedName?: string; category?: string; priority?: number }
+    ): Promise<StoredMerchantPattern> {
+        await this.getMerchantPattern(patternId);
+        await this.merchantPatternsCollection.doc(patternId).update({
+            ...stripUndefined(updates),
+            updatedAt: Timestamp.now(),
+        });
+        await this.bumpVersion();
+
+        return this.getMerchantPattern(patternId);
+    }
+
+    /**
+     * Delete a merchant pattern
+     */
+    async deleteMerchantPattern(patternId: string): Promise<void> {
+        await this.getMerchantPattern(patternId);
+        await this.merchantPatternsCollection.doc(patternId).delete();
+        await this.bumpVersion();
+    }
+
+    /**
+     * Reorder merchant patterns; the first ID is tried first
+     */
+    async reorderMerchantPatterns(patternIds: string[]): Promise<StoredMerchantPattern[]> {
+        await this.reorder(this.merchantPatternsCollection, patternIds, "Merchant pattern");
+        return this.listMerchantPatterns();
+    }
+
+    /**
+     * Drop the local cache so the next read reloads from Firestore
+     */
+    invalidateCache(): void {
+        ruleCache = null;
+    }
+
+    /**
+     * Return the cached rules, reloading them when the stored version moved on
+     */
+    private async loadCache(): Promise<NonNullable<typeof ruleCache>> {
+        const version = await this.ensureSeeded();
+        if (ruleCache && ruleCache.version === version) {
+            return ruleCache;
+        }
+
+        const [categorySnapshot, merchantSnapshot] = await Promise.all([
+            this.categoryRulesCollection.orderBy("priority", "desc").get(),
+            this.merchantPatternsCollection.orderBy("priority", "desc").get(),
+        ]);
+
+        const categoryRules = categorySnapshot.docs.map(toCategoryRule);
+        const merchantPatterns = merchantSnapshot.docs.map(toMerchantPattern);
+
+        ruleCache = {
+            version,
+            categoryRules,
+            merchantPatterns,
+            ruleSet: {
+                categoryRules: categoryRules.map(({ keywords, category, priority }) => ({ keywords, category, priority })),
+                merchantPatterns: merchantPatterns.map((pattern) => ({
+                    pattern: new RegExp(pattern.pattern, pattern.flags),
+                    normalizedName: pattern.normalizedName,
+                    category: pattern.category,
+                })),
+            },
+        };
+
+        return ruleCache;
+    }
+
+    /**
+     * Seed the store from the const.ts defaults if it has never been initialized
+     * Returns the current store version
+     */
+    private async ensureSeeded(): Promise<number> {
+        const meta = await this.metaRef.get();
+        if (meta.exists) {
+            return meta.get("version");
+        }
+
+        return this.db.runTransaction(async (tx) => {
+            const current = await tx.get(this.metaRef);
+            if (current.exists) {
+                return current.get("version") as number;
+            }
+
+            CATEGORY_RULES.forEach((rule) => {
+                tx.set(this.categoryRulesCollection.doc(), {
+                    keywords: rule.keywords,
+                    category: rule.category,
+                    priority: rule.priority,
+                    createdAt: Timestamp.now(),
+                    updatedAt: Timestamp.now(),
+                });
+            });
+
+            // Merchant patterns were matched in array order, so preserve it as descending priority
+            MERCHANT_PATTERNS.forEach((pattern, index) => {
+                tx.set(this.merchantPatternsCollection.doc(), {
+                    pattern: pattern.pattern.source,
+                    flags: pattern.pattern.flags,
+                    normalizedName: pattern.normalizedName,
+                    priority: (MERCHANT_PATTERNS.length - index) * 10,
+                    ...(pattern.category && { category: pattern.category }),
+                    createdAt: Timestamp.now(),
+                    updatedAt: Timestamp.now(),
+                });
+            });
+
+            tx.set(this.metaRef, {
+                version: 1,
+                seededAt: Timestamp.now(),
+                updatedAt: Timestamp.now(),
+            });
+
+            return 1;
+        });
+    }
+
+    /**
+     * Record a write so every instance reloads its cache on the next read
+     */
+    private async bumpVersion(): Promise<void> {
+        await this.metaRef.update({
+            version: FieldValue.increment(1),
+            updatedAt: Timestamp.now(),
+        });
+        this.invalidateCache();
+    }
+
+    /**
+     * Rewrite priorities so the given IDs are ordered first to last
+     */
+    private async reorder(
+        collection: admin.firestore.CollectionReference,
+        ids: string[],
+        label: string
+    ): Promise<void> {
+        await this.ensureSeeded();
+        const snapshot = await collection.get();
+        const existingIds = new Set(snapshot.docs.map((doc) => doc.id));
+
+        if (new Set(ids).size !== ids.length || ids.length !== existingIds.size) {
+            throw new Error(`${label} order is invalid: it must list every ${label.toLowerCase()} exactly once`);
+        }
+        const unknown = ids.find((id) => !existingIds.has(id));
+        if (unknown) {
+            throw new Error(`${label} ${unknown} not found`);
+        }
+
+        const batch = this.db.batch();
+        ids.forEach((id, index) => {
+            batch.update(collection.doc(id), {
+                priority: (ids.length - index) * 10,
+                updatedAt: Timestamp.now(),
+            });
+        });
+        await batch.commit();
+        await this.bumpVersion();
+    }
+}
+
+/**
+ * Map a Firestore document to a stored category rule
+ */
+function toCategoryRule(doc: admin.firestore.DocumentSnapshot): StoredCategoryRule {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        keywords: data.keywords,
+        category: data.category,
+        priority: data.priority,
+    };
+}
+
+/**
+ * Map a Firestore document to a stored merchant pattern
+ */
+function toMerchantPattern(doc: admin.firestore.DocumentSnapshot): StoredMerchantPattern {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        pattern: data.pattern,
+        flags: data.flags || "i",
+        normalizedName: data.normalizedName,
+        priority: data.priority,
+        ...(data.category && { category: data.category }),
+    };
+}
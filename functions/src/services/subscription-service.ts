@@ -0,0 +1,248 @@
+import { admin, Timestamp } from "../config/firebase";
+import { FieldValue } from "firebase-admin/firestore";
+import {
+    RECURRENCE_INTERVAL_DAYS,
+    SUBSCRIPTION_CANCELLED_AFTER_MISSED,
+    SUBSCRIPTION_GRACE_DAYS,
+    SUBSCRIPTION_PRICE_CHANGE_TOLERANCE,
+} from "../routes/transactions/const";
+import { addPeriod, daysBetween, toLocalIsoDate } from "../routes/transactions/dates";
+import { ParsedTransaction, RecurrencePeriod, Subscription, SubscriptionStatus } from "../routes/transactions/types";
+import { toMerchantKey } from "../routes/transactions/utils";
+
+/**
+ * Service class for the user's registry of recurring payments
+ * Stored under users/{id}/subscriptions, one document per recurring series (see TransactionService.linkRecurrence).
+ * Status is worked out from the expected charge date when read, so it moves to missed without a new transaction.
+ */
+export class SubscriptionService {
+    private readonly db = admin.firestore();
+
+    /**
+     * Record a newly stored debit against the user's subscriptions
+     * A transaction in a recurring series starts or advances that series' subscription. Any other charge is
+     * matched to a subscription with the same merchant and currency whose period fits the gap since its last
+     * charge, so a charge whose price moved too far to join the series still counts, and the change is flagged.
+     * Returns the subscription charged, if any.
+     */
+    async recordCharge(userId: string, transactionId: string, transaction: ParsedTransaction): Promise<Subscription | undefined> {
+        if (transaction.direction !== "debit" || transaction.merchant === "Unknown Merchant") {
+            return undefined;
+        }
+
+        const { seriesId } = transaction.recurrence;
+        if (seriesId) {
+            const doc = await this.subscriptionsCollection(userId).doc(seriesId).get();
+            return doc.exists ?
+                this.applyCharge(doc, transaction) :
+                this.createFromSeries(userId, seriesId);
+        }
+
+        const snapshot = await this.subscriptionsCollection(userId)
+            .where("merchantKey", "==", toMerchantKey(transaction.merchant))
+            .where("currency", "==", transaction.currency)
+            .get();
+        const due = snapshot.docs.find((doc) => {
+            const { min, max } = RECURRENCE_INTERVAL_DAYS[doc.get("period") as RecurrencePeriod];
+            const days = daysBetween(doc.get("lastChargedAt"), transaction.date);
+            return days >= min && days <= max;
+        });
+        if (!due) {
+            return undefined;
+        }
+
+        // Link the charge into the series it continues
+        await this.db.collection("users").doc(userId).collection("transactions").doc(transactionId).update({
+            recurrence: {
+                ...transaction.recurrence,
+                isRecurring: true,
+                period: due.get("period"),
+                seriesId: due.id,
+            },
+            updatedAt: Timestamp.now(),
+        });
+        return this.applyCharge(due, transaction);
+    }
+
+    /**
+     * List the user's subscriptions by next expected date, leaving out dismissed ones unless asked
+     */
+    async listSubscriptions(
+        userId: string,
+        options: { status?: SubscriptionStatus; includeDismissed?: boolean } = {}
+    ): Promise<Subscription[]> {
+        const snapshot = await this.subscriptionsCollection(userId).orderBy("nextExpectedDate", "asc").get();
+
+        return snapshot.docs
+            .map((doc) => toSubscription(doc))
+            .filter((subscription) =>
+                (options.includeDismissed || !subscription.dismissed) &&
+                (!options.status || subscription.status === options.status));
+    }
+
+    /**
+     * Get a single subscription
+     */
+    async getSubscription(userId: string, subscriptionId: string): Promise<Subscription> {
+        const doc = await this.subscriptionsCollection(userId).doc(subscriptionId).get();
+        if (!doc.exists) {
+            throw new Error("Subscription not found");
+        }
+        return toSubscription(doc);
+    }
+
+    /**
+     * Mark a subscription as a real recurring payment, restoring it if dismissed and accepting any price change
+     */
+    async confirmSubscription(userId: string, subscriptionId: string): Promise<Subscription> {
+        return this.updateSubscription(userId, subscriptionId, {
+            confirmed: true,
+            dismissed: false,
+            priceChange: FieldValue.delete(),
+        });
+    }
+
+    /**
+     * Hide a subscription from the list; it keeps tracking charges so it can be confirmed later
+     */
+    async dismissSubscription(userId: string, subscriptionId: string): Promise<Subscription> {
+        return this.updateSubscription(userId, subscriptionId, { dismissed: true, confirmed: false });
+    }
+
+    /**
+     * Give a subscription a display name
+     */
+    async renameSubscription(userId: string, subscriptionId: string, name: string): Promise<Subscription> {
+        return this.updateSubscription(userId, subscriptionId, { name: name.trim() });
+    }
+
+    /**
+     * Apply changes to an existing subscription and return the result
+     */
+    private async updateSubscription(
+        userId: string,
+        subscriptionId: string,
+        changes: admin.firestore.UpdateData<admin.firestore.DocumentData>
+    ): Promise<Subscription> {
+        const docRef = this.subscriptionsCollection(userId).doc(subscriptionId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Subscription not found");
+        }
+
+        await docRef.update({ ...changes, updatedAt: Timestamp.now() });
+        return toSubscription(await docRef.get());
+    }
+
+    /**
+     * Start tracking a newly detected series from the transactions linked to it
+     */
+    private async createFromSeries(userId: string, seriesId: string): Promise<Subscription | undefined> {
+        const snapshot = await this.db
+            .collection("users")
+            .doc(userId)
+            .collection("transactions")
+            .where("recurrence.seriesId", "==", seriesId)
+            .get();
+        const charges = snapshot.docs.map((doc) => doc.data()).sort((a, b) => a.date.localeCompare(b.date));
+        if (charges.length === 0) {
+            return undefined;
+        }
+
+        const last = charges[charges.length - 1];
+        const previous = charges[charges.length - 2];
+        const period: RecurrencePeriod = last.recurrence.period;
+        const data = {
+            merchant: last.merchant,
+            merchantKey: toMerchantKey(last.merchant),
+            amount: last.amount,
+            currency: last.currency,
+            period,
+            lastChargedAt: last.date,
+            nextExpectedDate: addPeriod(last.date, period),
+            chargeCount: charges.length,
+            confirmed: false,
+            dismissed: false,
+            ...(previous && isPriceChange(previous.amount, last.amount) && {
+                priceChange: { previousAmount: previous.amount, amount: last.amount, date: last.date },
+            }),
+        };
+
+        const docRef = this.subscriptionsCollection(userId).doc(seriesId);
+        await docRef.set({ ...data, createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+        return toSubscription(await docRef.get());
+    }
+
+    /**
+     * Advance a subscription to a new charge, flagging a price change
+     * A charge on or before the last one (a late or repeated message) leaves it as is
+     */
+    private async applyCharge(doc: admin.firestore.DocumentSnapshot, transaction: ParsedTransaction): Promise<Subscription> {
+        const data = doc.data() || {};
+        if (transaction.date <= data.lastChargedAt) {
+            return toSubscription(doc);
+        }
+
+        const changes = {
+            amount: transaction.amount,
+            lastChargedAt: transaction.date,
+            nextExpectedDate: addPeriod(transaction.date, data.period),
+            chargeCount: (data.chargeCount || 0) + 1,
+            ...(isPriceChange(data.amount, transaction.amount) && {
+                priceChange: { previousAmount: data.amount, amount: transaction.amount, date: transaction.date },
+            }),
+        };
+        await doc.ref.update({ ...changes, updatedAt: Timestamp.now() });
+
+        return toSubscription(await doc.ref.get());
+    }
+
+    /**
+     * users/{id}/subscriptions collection reference
+     */
+    private subscriptionsCollection(userId: string) {
+        return this.db.collection("users").doc(userId).collection("subscriptions");
+    }
+}
+
+/**
+ * Whether a charge moved away from the previous amount by more than the tolerance
+ */
+export function isPriceChange(previousAmount: number, amount: number): boolean {
+    return Math.abs(amount - previousAmount) > previousAmount * SUBSCRIPTION_PRICE_CHANGE_TOLERANCE;
+}
+
+/**
+ * Status on a given day: missed once the expected charge is overdue past the grace days,
+ * cancelled once SUBSCRIPTION_CANCELLED_AFTER_MISSED charges in a row are
+ */
+export function subscriptionStatus(nextExpectedDate: string, period: RecurrencePeriod, today: string): SubscriptionStatus {
+    const isOverdue = (missed: number) =>
+        daysBetween(addPeriod(nextExpectedDate, period, missed - 1), today) > SUBSCRIPTION_GRACE_DAYS[period];
+
+    if (isOverdue(SUBSCRIPTION_CANCELLED_AFTER_MISSED)) {
+        return "cancelled";
+    }
+    return isOverdue(1) ? "missed" : "active";
+}
+
+/**
+ * Map a Firestore document to a subscription, with its status as of today
+ */
+function toSubscription(doc: admin.firestore.DocumentSnapshot): Subscription {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        merchant: data.merchant,
+        ...(data.name && { name: data.name }),
+        amount: data.amount,
+        currency: data.currency,
+        period: data.period,
+        lastChargedAt: data.lastChargedAt,
+        nextExpectedDate: data.nextExpectedDate,
+        status: subscriptionStatus(data.nextExpectedDate, data.period, toLocalIsoDate()),
+        chargeCount: data.chargeCount || 0,
+        confirmed: data.confirmed === true,
+        dismissed: data.dismissed === true,
+        ...(data.priceChange && { priceChange: data.priceChange }),
+    };
+}
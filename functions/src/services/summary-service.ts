@@ -0,0 +1,287 @@
+import { admin, Timestamp } from "../config/firebase";
+import { FieldPath, FieldValue } from "firebase-admin/firestore";
+import { SUMMARY_EVENT_TTL_DAYS } from "../routes/transactions/const";
+import { CurrencyTotals, MonthlySummary, SummaryTotals, TransactionDirection } from "../routes/transactions/types";
+
+/**
+ * Transactions read per page when rebuilding a user's summaries
+ */
+const REBUILD_PAGE_SIZE = 1000;
+
+/**
+ * Firestore batches are limited to 500 writes
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * The part of a stored transaction that a monthly summary counts
+ */
+export interface SummaryEntry {
+    month: string;
+    direction: TransactionDirection;
+    category: string;
+    merchant: string;
+    currency: string;
+    amount: number;
+}
+
+/**
+ * Service class for per-user monthly summaries, kept under users/{id}/monthlySummaries/{YYYY-MM}
+ * The summaries are maintained incrementally by the aggregateMonthlySummaries trigger, so reading them
+ * costs one document per month however large the ledger grows. Transactions stored before the trigger
+ * was deployed are counted once an admin rebuilds the user's summaries.
+ */
+export class SummaryService {
+    private readonly db = admin.firestore();
+    private readonly eventsCollection = this.db.collection("summaryEvents");
+
+    /**
+     * Apply one write to a stored transaction, at most once per event
+     * The old version is taken out of its month and the new one added, so creates, edits (including moves
+     * between months, categories or currencies) and deletes all balance. The event ID is recorded in the same
+     * transaction, so a retried event changes nothing. Writes that leave the counted fields as they were are skipped.
+     */
+    async applyTransactionWrite(
+        userId: string,
+        eventId: string,
+        before: admin.firestore.DocumentData | undefined,
+        after: admin.firestore.DocumentData | undefined
+    ): Promise<void> {
+        const changes = toSummaryChanges(before, after);
+        if (changes.length === 0) {
+            return;
+        }
+
+        const userRef = this.db.collection("users").doc(userId);
+        const eventRef = this.eventsCollection.doc(eventId);
+
+        await this.db.runTransaction(async (tx) => {
+            const [event, user] = await tx.getAll(eventRef, userRef);
+            // Deleting a user deletes their transactions one by one while their summaries go with them. Reading the user
+            // in this transaction means no summary is written once the deletion has started (see UserService.deleteUser).
+            if (event.exists || !user.exists || user.get("deletingAt")) {
+                return;
+            }
+
+            changes.forEach(({ entry, sign }) => {
+                tx.set(this.summaryRef(userId, entry.month), toIncrements(entry, sign), { merge: true });
+            });
+            tx.set(eventRef, {
+                userId,
+                processedAt: Timestamp.now(),
+                expiresAt: Timestamp.fromMillis(Date.now() + SUMMARY_EVENT_TTL_DAYS * 24 * 60 * 60 * 1000),
+            });
+        });
+    }
+
+    /**
+     * Recompute all of a user's monthly summaries from their stored transactions
+     * Backfills ledgers written before the trigger was deployed and repairs summaries that drifted;
+     * months left without transactions are removed. Transactions written while the rebuild runs may be
+     * counted twice or not at all, so run it while the user's transactions are not changing.
+     */
+    async rebuildSummaries(userId: string): Promise<MonthlySummary[]> {
+        const userRef = this.db.collection("users").doc(userId);
+        const summaries = new Map<string, MonthlySummary>();
+
+        let last: admin.firestore.QueryDocumentSnapshot | undefined;
+        do {
+            let query = userRef
+                .collection("transactions")
+                .orderBy(FieldPath.documentId())
+                .select("date", "direction", "category", "merchant", "currency", "amount")
+                .limit(REBUILD_PAGE_SIZE);
+            if (last) {
+                query = query.startAfter(last);
+            }
+            const snapshot = await query.get();
+            snapshot.docs.forEach((doc) => {
+                const entry = toSummaryEntry(doc.data());
+                if (entry) {
+                    addToSummary(summaries, entry);
+                }
+            });
+            last = snapshot.docs.length === REBUILD_PAGE_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+        } while (last);
+
+        const stale = (await userRef.collection("monthlySummaries").listDocuments())
+            .filter((docRef) => !summaries.has(docRef.id));
+        // Stale months are deleted; the others are replaced whole
+        const writes: Array<{ docRef: admin.firestore.DocumentReference; summary?: MonthlySummary }> = [
+            ...stale.map((docRef) => ({ docRef })),
+            ...[...summaries.values()].map((summary) => ({ docRef: this.summaryRef(userId, summary.month), summary })),
+        ];
+        for (let start = 0; start < writes.length; start += BATCH_SIZE) {
+            const batch = this.db.batch();
+            writes.slice(start, start + BATCH_SIZE).forEach(({ docRef, summary }) => {
+                if (summary) {
+                    batch.set(docRef, { ...summary, updatedAt: Timestamp.now() });
+                } else {
+                    batch.delete(docRef);
+                }
+            });
+            await batch.commit();
+        }
+
+        return this.listSummaries(userId);
+    }
+
+    /**
+     * List the user's monthly summaries, newest month first, optionally only one month
+     */
+    async listSummaries(userId: string, month?: string): Promise<MonthlySummary[]> {
+        if (month) {
+            const doc = await this.summaryRef(userId, month).get();
+            return doc.exists ? [toMonthlySummary(doc)] : [];
+        }
+
+        const snapshot = await this.db
+            .collection("users")
+            .doc(userId)
+            .collection("monthlySummaries")
+            .orderBy(FieldPath.documentId(), "desc")
+            .get();
+        return snapshot.docs.map(toMonthlySummary);
+    }
+
+    /**
+     * users/{id}/monthlySummaries/{month} document reference
+     */
+    private summaryRef(userId: string, month: string) {
+        return this.db
+            .collection("users")
+            .doc(userId)
+            .collection("monthlySummaries")
+            .doc(month);
+    }
+}
+
+/**
+ * The counted fields of a stored transaction, with the same defaults as the analytics service
+ * Undefined for a transaction without a usable date
+ */
+function toSummaryEntry(data: admin.firestore.DocumentData): SummaryEntry | undefined {
+    const month = typeof data.date === "string" ? data.date.slice(0, 7) : "";
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+        return undefined;
+    }
+
+    return {
+        month,
+        // Transactions stored before direction detection are treated as spend
+        direction: data.direction === "credit" ? "credit" : "debit",
+        category: data.category || "Other",
+        merchant: data.merchant || "Unknown Merchant",
+        currency: data.currency || "SAR",
+        amount: Number(data.amount) || 0,
+    };
+}
+
+/**
+ * What one write does to the summaries: the old version taken out (sign -1) and the new one added (sign 1)
+ * Empty when the counted fields are unchanged
+ */
+export function toSummaryChanges(
+    before: admin.firestore.DocumentData | undefined,
+    after: admin.firestore.DocumentData | undefined
+): Array<{ entry: SummaryEntry; sign: 1 | -1 }> {
+    const removed = before && toSummaryEntry(before);
+    const added = after && toSummaryEntry(after);
+    if (JSON.stringify(removed) === JSON.stringify(added)) {
+        return [];
+    }
+
+    return [
+        ...(removed ? [{ entry: removed, sign: -1 as const }] : []),
+        ...(added ? [{ entry: added, sign: 1 as const }] : []),
+    ];
+}
+
+/**
+ * Merge data that adds (sign 1) or takes out (sign -1) one transaction from its month's summary
+ * Category and merchant names are map keys here, so dots or slashes in them are stored as written
+ */
+function toIncrements(entry: SummaryEntry, sign: 1 | -1): admin.firestore.DocumentData {
+    const totals = {
+        total: FieldValue.increment(sign * entry.amount),
+        count: FieldValue.increment(sign),
+    };
+
+    return {
+        month: entry.month,
+        [entry.direction]: {
+            count: FieldValue.increment(sign),
+            byCurrency: { [entry.currency]: totals },
+            byCategory: { [entry.category]: { [entry.currency]: totals } },
+            byMerchant: { [entry.merchant]: { [entry.currency]: totals } },
+        },
+        updatedAt: Timestamp.now(),
+    };
+}
+
+/**
+ * Add one transaction to the plain totals of its month, in the stored summary shape
+ */
+export function addToSummary(summaries: Map<string, MonthlySummary>, entry: SummaryEntry): void {
+    const empty = (): SummaryTotals => ({ count: 0, byCurrency: {}, byCategory: {}, byMerchant: {} });
+    const summary = summaries.get(entry.month) || { month: entry.month, debit: empty(), credit: empty() };
+    summaries.set(entry.month, summary);
+
+    const totals = summary[entry.direction];
+    const add = (byCurrency: CurrencyTotals) => {
+        const { total = 0, count = 0 } = byCurrency[entry.currency] || {};
+        byCurrency[entry.currency] = { total: total + entry.amount, count: count + 1 };
+    };
+    totals.count++;
+    add(totals.byCurrency);
+    add(totals.byCategory[entry.category] = totals.byCategory[entry.category] || {});
+    add(totals.byMerchant[entry.merchant] = totals.byMerchant[entry.merchant] || {});
+}
+
+/**
+ * Map a summary document to a monthly summary
+ */
+function toMonthlySummary(doc: admin.firestore.DocumentSnapshot): MonthlySummary {
+    const data = doc.data() || {};
+    return {
+        month: doc.id,
+        debit: toSummaryTotals(data.debit),
+        credit: toSummaryTotals(data.credit),
+    };
+}
+
+/**
+ * Round the running totals and drop groups whose transactions were all edited away or deleted
+ */
+function toSummaryTotals(data: admin.firestore.DocumentData = {}): SummaryTotals {
+    const groups = (byKey: Record<string, CurrencyTotals> = {}) => {
+        const result: Record<string, CurrencyTotals> = {};
+        Object.entries(byKey).forEach(([key, totals]) => {
+            const kept = toCurrencyTotals(totals);
+            if (Object.keys(kept).length > 0) {
+                result[key] = kept;
+            }
+        });
+        return result;
+    };
+
+    return {
+        count: data.count || 0,
+        byCurrency: toCurrencyTotals(data.byCurrency),
+        byCategory: groups(data.byCategory),
+        byMerchant: groups(data.byMerchant),
+    };
+}
+
+/**
+ * Per-currency totals rounded to 2 decimal places, without currencies left at no transactions
+ */
+function toCurrencyTotals(totals: CurrencyTotals = {}): CurrencyTotals {
+    const result: CurrencyTotals = {};
+    Object.entries(totals).forEach(([currency, { total, count }]) => {
+        if (count > 0) {
+            result[currency] = { total: Math.round(total * 100) / 100, count };
+        }
+    });
+    return result;
+}
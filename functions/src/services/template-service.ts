@@ -0,0 +1,294 @@
+import { admin, Timestamp } from "../config/firebase";
+import { FieldValue } from "firebase-admin/firestore";
+import { BANK_PATTERNS } from "../routes/transactions/const";
+import { BankTemplate, CompiledBankTemplate, TemplateField, TemplateFieldSpec } from "../routes/transactions/types";
+import { compileBankTemplate, templateFromPatterns, testBankTemplate } from "../routes/transactions/utils";
+
+/**
+ * In-process cache of the template store, keyed by the version counter in config/templateStore
+ */
+let templateCache: {
+    version: number;
+    templates: BankTemplate[];
+    compiled: CompiledBankTemplate[];
+} | null = null;
+
+/**
+ * Template body accepted on create and update
+ */
+interface BankTemplateInput {
+    name?: string;
+    fields: Partial<Record<TemplateField, TemplateFieldSpec>>;
+    samples: string[];
+    priority?: number;
+}
+
+/**
+ * Service class for the Firestore-backed bank template registry
+ * Templates live in `bankTemplates`, every version is kept under bankTemplates/{id}/versions,
+ * and the store is seeded from the built-in BANK_PATTERNS the first time it is read
+ */
+export class TemplateService {
+    private readonly db = admin.firestore();
+    private readonly templatesCollection = this.db.collection("bankTemplates");
+    private readonly metaRef = this.db.collection("config").doc("templateStore");
+
+    /**
+     * Templates ready for the parser, highest priority first
+     */
+    async getCompiledTemplates(): Promise<CompiledBankTemplate[]> {
+        const cache = await this.loadCache();
+        return cache.compiled;
+    }
+
+    /**
+     * List templates, highest priority first
+     */
+    async listTemplates(): Promise<BankTemplate[]> {
+        const cache = await this.loadCache();
+        return cache.templates;
+    }
+
+    /**
+     * Get the current version of a template
+     */
+    async getTemplate(templateId: string): Promise<BankTemplate> {
+        await this.ensureSeeded();
+        const doc = await this.templatesCollection.doc(templateId).get();
+        if (!doc.exists) {
+            throw new Error("Bank template not found");
+        }
+        return toBankTemplate(doc);
+    }
+
+    /**
+     * List every version of a template, newest first
+     */
+    async listTemplateVersions(templateId: string): Promise<BankTemplate[]> {
+        await this.getTemplate(templateId);
+        const snapshot = await this.versionsCollection(templateId).orderBy("version", "desc").get();
+
+        return snapshot.docs.map(toBankTemplate);
+    }
+
+    /**
+     * Get one past or current version of a template
+     */
+    async getTemplateVersion(templateId: string, version: number): Promise<BankTemplate> {
+        const doc = await this.versionsCollection(templateId).doc(String(version)).get();
+        if (!doc.exists) {
+            throw new Error(`Bank template ${templateId} version ${version} not found`);
+        }
+        return toBankTemplate(doc);
+    }
+
+    /**
+     * Register a new template
+     * Without an explicit priority the template is tried after every existing one
+     */
+    async createTemplate(templateId: string, input: BankTemplateInput): Promise<BankTemplate> {
+        const existing = await this.listTemplates();
+        if (existing.some((template) => template.id === templateId)) {
+            throw new Error(`Bank template ${templateId} already exists`);
+        }
+        this.assertSamplesMatch(templateId, input);
+
+        const lowest = existing.length > 0 ? existing[existing.length - 1].priority : 10;
+        const template = toTemplateData(templateId, input, input.priority ?? Math.max(lowest - 10, 0), 1);
+
+        const batch = this.db.batch();
+        batch.set(this.templatesCollection.doc(templateId), {
+            ...template,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+        });
+        batch.set(this.versionsCollection(templateId).doc("1"), { ...template, createdAt: Timestamp.now() });
+        await batch.commit();
+        await this.bumpVersion();
+
+        return template;
+    }
+
+    /**
+     * Replace a template's definition, keeping the previous one as an older version
+     */
+    async updateTemplate(templateId: string, input: BankTemplateInput): Promise<BankTemplate> {
+        const current = await this.getTemplate(templateId);
+        this.assertSamplesMatch(templateId, input);
+
+        const docRef = this.templatesCollection.doc(templateId);
+        const template = await this.db.runTransaction(async (tx) => {
+            // Number the version inside the transaction so concurrent updates cannot share one
+            const doc = await tx.get(docRef);
+            const next = toTemplateData(templateId, input, input.priority ?? current.priority, (doc.get("version") || 0) + 1);
+            tx.update(docRef, { ...next, updatedAt: Timestamp.now() });
+            tx.set(this.versionsCollection(templateId).doc(String(next.version)), {
+                ...next,
+                createdAt: Timestamp.now(),
+            });
+            return next;
+        });
+        await this.bumpVersion();
+
+        return template;
+    }
+
+    /**
+     * Delete a template together with its version history
+     */
+    async deleteTemplate(templateId: string): Promise<void> {
+        await this.getTemplate(templateId);
+        await this.db.recursiveDelete(this.templatesCollection.doc(templateId));
+        await this.bumpVersion();
+    }
+
+    /**
+     * Drop the local cache so the next read reloads from Firestore
+     */
+    invalidateCache(): void {
+        templateCache = null;
+    }
+
+    /**
+     * Reject a template whose samples it does not parse
+     */
+    private assertSamplesMatch(templateId: string, input: BankTemplateInput): void {
+        const compiled = compileBankTemplate({ id: templateId, fields: toFieldSpecs(input.fields) });
+        const results = testBankTemplate(compiled, input.samples);
+
+        results.forEach((result, index) => {
+            if (!result.applies) {
+                throw new Error(`Template is invalid: sample ${index + 1} ${result.missingRequired.length > 0 ?
+                    `is missing required field(s) ${result.missingRequired.join(", ")}` :
+                    "matches none of its fields"}`);
+            }
+            if (!result.matchedFields.includes("amount")) {
+                throw new Error(`Template is invalid: sample ${index + 1} does not match the amount pattern`);
+            }
+            if (result.error) {
+                throw new Error(`Template is invalid: sample ${index + 1} fails to parse: ${result.error}`);
+            }
+        });
+    }
+
+    /**
+     * Return the cached templates, reloading them when the stored version moved on
+     */
+    private async loadCache(): Promise<NonNullable<typeof templateCache>> {
+        const version = await this.ensureSeeded();
+        if (templateCache && templateCache.version === version) {
+            return templateCache;
+        }
+
+        const snapshot = await this.templatesCollection.orderBy("priority", "desc").get();
+        const templates = snapshot.docs.map(toBankTemplate);
+
+        templateCache = {
+            version,
+            templates,
+            compiled: templates.map(compileBankTemplate),
+        };
+
+        return templateCache;
+    }
+
+    /**
+     * Seed the store from the built-in formats if it has never been initialized
+     * Returns the current store version
+     */
+    private async ensureSeeded(): Promise<number> {
+        const meta = await this.metaRef.get();
+        if (meta.exists) {
+            return meta.get("version");
+        }
+
+        return this.db.runTransaction(async (tx) => {
+            const current = await tx.get(this.metaRef);
+            if (current.exists) {
+                return current.get("version") as number;
+            }
+
+            // Formats were tried in declaration order, so preserve it as descending priority
+            const entries = Object.entries(BANK_PATTERNS);
+            entries.forEach(([id, patterns], index) => {
+                const template = templateFromPatterns(id, patterns, (entries.length - index) * 10);
+                const docRef = this.templatesCollection.doc(id);
+                tx.set(docRef, { ...template, createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+                tx.set(docRef.collection("versions").doc("1"), { ...template, createdAt: Timestamp.now() });
+            });
+
+            tx.set(this.metaRef, {
+                version: 1,
+                seededAt: Timestamp.now(),
+                updatedAt: Timestamp.now(),
+            });
+
+            return 1;
+        });
+    }
+
+    /**
+     * Record a write so every instance reloads its cache on the next read
+     */
+    private async bumpVersion(): Promise<void> {
+        await this.metaRef.update({
+            version: FieldValue.increment(1),
+            updatedAt: Timestamp.now(),
+        });
+        this.invalidateCache();
+    }
+
+    /**
+     * bankTemplates/{id}/versions collection reference
+     */
+    private versionsCollection(templateId: string) {
+        return this.templatesCollection.doc(templateId).collection("versions");
+    }
+}
+
+/**
+ * Template data as written to Firestore; only known spec keys are kept so no undefined values reach it
+ */
+function toTemplateData(templateId: string, input: BankTemplateInput, priority: number, version: number): BankTemplate {
+    return {
+        id: templateId,
+        ...(input.name && { name: input.name.trim() }),
+        fields: toFieldSpecs(input.fields),
+        samples: input.samples,
+        priority,
+        version,
+    };
+}
+
+/**
+ * Normalize field specs: default flags to "" and drop unset hints
+ */
+function toFieldSpecs(fields: BankTemplateInput["fields"]): BankTemplate["fields"] {
+    const specs: BankTemplate["fields"] = {};
+    for (const [field, spec] of Object.entries(fields) as Array<[TemplateField, TemplateFieldSpec]>) {
+        specs[field] = {
+            pattern: spec.pattern,
+            flags: spec.flags || "",
+            ...(spec.required !== undefined && { required: spec.required }),
+            ...(spec.amountSign && { amountSign: spec.amountSign }),
+            ...(spec.dateFormat && { dateFormat: spec.dateFormat }),
+            ...(spec.calendar && { calendar: spec.calendar }),
+        };
+    }
+    return specs;
+}
+
+/**
+ * Map a template or template version document to a bank template
+ */
+function toBankTemplate(doc: admin.firestore.DocumentSnapshot): BankTemplate {
+    const data = doc.data() || {};
+    return {
+        id: data.id || doc.id,
+        ...(data.name && { name: data.name }),
+        fields: data.fields || {},
+        samples: data.samples || [],
+        priority: data.priority,
+        version: data.version,
+    };
+}
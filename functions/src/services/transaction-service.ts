@@ -1,91 +1,575 @@
+import { createHash } from "crypto";
 import { admin, Timestamp } from "../config/firebase";
-import { ParsedTransaction } from "../routes/transactions/types";
+import { FieldPath, FieldValue } from "firebase-admin/firestore";
+import {
+    DuplicateMatch,
+    DuplicateMode,
+    HomeAmount,
+    ParsedTransaction,
+    ParseInfo,
+    RecurrenceCandidate,
+    StoreResult,
+    TransactionQueryOptions,
+    TransactionRecurrence,
+    TransactionUpdate,
+} from "../routes/transactions/types";
+import { DUPLICATE_WINDOW_DAYS, EDITABLE_FIELDS, RECURRENCE_HISTORY_LIMIT } from "../routes/transactions/const";
+import {
+    buildSearchTokens,
+    detectRecurrenceWithHistory,
+    toMerchantKey,
+    toSearchToken,
+} from "../routes/transactions/utils";
+import { normalizeText } from "../routes/transactions/text";
+import { addDays, daysBetween } from "../routes/transactions/dates";
+import { stripUndefined } from "../utils/firestore";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { CurrencyConverter, FxService } from "./fx-service";
+import { UserService } from "./user-service";
 
 /**
  * Service class for transaction-related operations
+ * Stored transactions are stamped with their amount in the user's home currency (`home`)
  */
 export class TransactionService {
     private readonly db = admin.firestore();
+    private readonly fxService = new FxService();
+    private readonly userService = new UserService();
 
     /**
-     * Store a single transaction
+     * Store a single transaction unless it duplicates a stored one (see storeTransactionsBatch)
      */
-    async storeTransaction(userId: string, transaction: ParsedTransaction): Promise<string> {
-        const docRef = await this.db
+    async storeTransaction(
+        userId: string,
+        transaction: ParsedTransaction,
+        mode: DuplicateMode = "skip",
+        clientId?: string
+    ): Promise<StoreResult> {
+        const [result] = await this.storeTransactionsBatch(userId, [transaction], mode, [clientId]);
+        return result;
+    }
+
+    /**
+     * Store multiple transactions in one batch, checking each for a duplicate first
+     * A duplicate is a stored (or earlier in the batch) transaction with the same message text, or with the same
+     * amount, currency and direction within DUPLICATE_WINDOW_DAYS and the same merchant or account.
+     * skip leaves the duplicate out, merge folds it into the transaction it duplicates, force stores it anyway.
+     * A message whose client ID (aligned with `transactions`) was stored before is not written again.
+     */
+    async storeTransactionsBatch(
+        userId: string,
+        transactions: ParsedTransaction[],
+        mode: DuplicateMode = "skip",
+        clientIds: Array<string | undefined> = []
+    ): Promise<StoreResult[]> {
+        const converter = await this.getConverter(userId);
+        const userTransactionsRef = this.db
             .collection("users")
             .doc(userId)
-            .collection("transactions")
-            .add({
-                ...transaction,
-                createdAt: Timestamp.now(),
-                updatedAt: Timestamp.now(),
+            .collection("transactions");
+
+        // Documents this batch creates or merges into, by ID; created ones are set whole, merged ones only get their changes
+        const writes = new Map<string, { data: admin.firestore.DocumentData; changes?: admin.firestore.DocumentData }>();
+        const results: StoreResult[] = [];
+
+        for (const [index, transaction] of transactions.entries()) {
+            const clientId = clientIds[index];
+            const replayedId = clientId ? await this.findByClientId(userId, clientId, writes) : undefined;
+            if (replayedId) {
+                results.push({ id: replayedId, status: "replayed" });
+                continue;
+            }
+
+            const stored = { ...toStoredTransaction(transaction, converter), ...(clientId && { clientId }) };
+            const duplicate = mode === "force" ? undefined : await this.findDuplicate(userId, stored, writes);
+
+            if (!duplicate) {
+                const docRef = userTransactionsRef.doc();
+                writes.set(docRef.id, { data: { ...stored, createdAt: Timestamp.now(), updatedAt: Timestamp.now() } });
+                results.push({ id: docRef.id, status: "created" });
+                continue;
+            }
+
+            const { transactionId } = duplicate.match;
+            if (mode === "merge") {
+                const target = writes.get(transactionId) || { data: duplicate.data, changes: {} };
+                const changes = mergeDuplicate(target.data, stored);
+                target.data = { ...target.data, ...changes };
+                if (target.changes) {
+                    target.changes = { ...target.changes, ...changes, updatedAt: Timestamp.now() };
+                }
+                writes.set(transactionId, target);
+            }
+            results.push({ id: transactionId, status: mode === "merge" ? "merged" : "skipped", duplicate: duplicate.match });
+        }
+
+        if (writes.size > 0) {
+            const batch = this.db.batch();
+            writes.forEach(({ data, changes }, id) => {
+                if (changes) {
+                    batch.update(userTransactionsRef.doc(id), changes);
+                } else {
+                    batch.set(userTransactionsRef.doc(id), data);
+                }
             });
+            await batch.commit();
+        }
 
-        return docRef.id;
+        return results;
     }
 
     /**
-     * Store multiple transactions in batch
+     * Link a newly created transaction into a recurring series found among the user's stored transactions
+     * with the same merchant key. The transaction and the earlier ones in the series get a shared
+     * `recurrence.seriesId`, reusing one they already carry. Without a series nothing is written and the
+     * parser's keyword-based guess is returned unchanged.
      */
-    async storeTransactionsBatch(userId: string, transactions: ParsedTransaction[]): Promise<void> {
-        const batch = this.db.batch();
+    async linkRecurrence(userId: string, transactionId: string, transaction: ParsedTransaction): Promise<TransactionRecurrence> {
         const userTransactionsRef = this.db
             .collection("users")
             .doc(userId)
             .collection("transactions");
 
-        transactions.forEach((transaction) => {
-            const docRef = userTransactionsRef.doc();
-            batch.set(docRef, {
-                ...transaction,
-                createdAt: Timestamp.now(),
-                updatedAt: Timestamp.now(),
-            });
-        });
+        const snapshot = await userTransactionsRef
+            .where("merchantKey", "==", toMerchantKey(transaction.merchant))
+            .orderBy("date", "desc")
+            .limit(RECURRENCE_HISTORY_LIMIT + 1)
+            .get();
+        const history = snapshot.docs
+            .filter((doc) => doc.id !== transactionId)
+            .map((doc) => ({ id: doc.id, ...doc.data() }) as RecurrenceCandidate);
+
+        const { recurrence, matches } = detectRecurrenceWithHistory(transaction, history);
+        if (!recurrence.isRecurring) {
+            return transaction.recurrence;
+        }
 
+        const series = toSeriesRecurrence(recurrence, matches, transactionId);
+        const batch = this.db.batch();
+        [transactionId, ...matches.map((match) => match.id as string)].forEach((id) => {
+            batch.update(userTransactionsRef.doc(id), { recurrence: series, updatedAt: Timestamp.now() });
+        });
         await batch.commit();
+
+        return series;
     }
 
     /**
-     * Get user's transactions with pagination and filtering
+     * Get user's transactions with cursor pagination, filtering and sorting
+     * All filters run in Firestore. A range filter sorts by its own field, so each equality or search filter
+     * needs one composite index per sort field and order; see firestore.indexes.json
      */
     async getUserTransactions(
         userId: string,
-        options: {
-            limit?: number;
-            offset?: number;
-            category?: string;
-        } = {}
-    ): Promise<{ transactions: any[]; pagination: any }> {
-        const { limit = 50, offset = 0, category } = options;
-
-        let query = this.db
+        options: TransactionQueryOptions = {}
+    ): Promise<{ transactions: admin.firestore.DocumentData[]; pagination: { limit: number; total: number; count: number; nextCursor: string | null } }> {
+        const {
+            limit = 50,
+            cursor,
+            sortBy = toRangeField(options) || "createdAt",
+            order = "desc",
+        } = options;
+
+        let query: admin.firestore.Query = this.db
             .collection("users")
             .doc(userId)
-            .collection("transactions")
-            .orderBy("createdAt", "desc");
+            .collection("transactions");
+
+        const equalityFilters: Array<[string, unknown]> = [
+            ["category", options.category],
+            ["merchant", options.merchant],
+            ["currency", options.currency],
+            ["bankFormat", options.bankFormat],
+            ["type", options.type],
+            ["direction", options.direction],
+            ["recurrence.isRecurring", options.isRecurring],
+        ];
+        equalityFilters.forEach(([field, value]) => {
+            if (value !== undefined) {
+                query = query.where(field, "==", value);
+            }
+        });
 
-        if (category) {
-            query = query.where("category", "==", category);
+        if (options.dateFrom) {
+            query = query.where("date", ">=", options.dateFrom);
+        }
+        if (options.dateTo) {
+            query = query.where("date", "<=", options.dateTo);
+        }
+        if (options.minAmount !== undefined) {
+            query = query.where("amount", ">=", options.minAmount);
+        }
+        if (options.maxAmount !== undefined) {
+            query = query.where("amount", "<=", options.maxAmount);
         }
 
-        const snapshot = await query
-            .limit(Number(limit))
-            .offset(Number(offset))
-            .get();
+        const searchToken = options.search ? toSearchToken(options.search) : undefined;
+        if (searchToken) {
+            query = query.where("searchTokens", "array-contains", searchToken);
+        }
+
+        // Count with the same filters; aggregation bills one read per 1000 matching entries
+        const countSnapshot = await query.count().get();
+
+        // Sorting by document ID as well makes the cursor position unique among equal sort keys
+        let pageQuery = query
+            .orderBy(sortBy, order)
+            .orderBy(FieldPath.documentId(), order);
+
+        if (cursor) {
+            const { value, id } = decodeCursor(cursor, sortBy, order);
+            pageQuery = pageQuery.startAfter(value, id);
+        }
 
-        const transactions = snapshot.docs.map((doc) => ({
+        // Fetch one extra document to know whether another page exists
+        const snapshot = await pageQuery.limit(Number(limit) + 1).get();
+        const docs = snapshot.docs.slice(0, Number(limit));
+
+        const converter = await this.getConverter(userId);
+        const transactions = docs.map((doc) => withHomeAmount({
             id: doc.id,
             ...doc.data(),
-        }));
+        }, converter));
 
         return {
             transactions,
             pagination: {
                 limit: Number(limit),
-                offset: Number(offset),
+                total: countSnapshot.data().count,
                 count: transactions.length,
+                nextCursor: nextPageCursor(snapshot.docs, Number(limit), sortBy, order),
             },
         };
     }
+
+    /**
+     * Get a single stored transaction
+     */
+    async getTransaction(userId: string, transactionId: string): Promise<admin.firestore.DocumentData> {
+        const doc = await this.transactionRef(userId, transactionId).get();
+        if (!doc.exists) {
+            throw new Error("Transaction not found");
+        }
+        return withHomeAmount({ id: doc.id, ...doc.data() }, await this.getConverter(userId));
+    }
+
+    /**
+     * Apply user edits to a stored transaction
+     * The parser's original values are kept under `parsed` the first time a field is edited, and rawText is never changed
+     */
+    async updateTransaction(
+        userId: string,
+        transactionId: string,
+        updates: TransactionUpdate
+    ): Promise<admin.firestore.DocumentData> {
+        const docRef = this.transactionRef(userId, transactionId);
+        const doc = await docRef.get();
+        if (!doc.exists) {
+            throw new Error("Transaction not found");
+        }
+
+        const current = doc.data() || {};
+        const changes: Record<string, unknown> = stripUndefined(updates);
+        const editedFields = new Set<string>(current.editedFields || []);
+        Object.keys(changes).forEach((field) => editedFields.add(field));
+
+        if (changes.category !== undefined) {
+            changes.categorySource = "user";
+        }
+        if (changes.amount !== undefined || changes.currency !== undefined || changes.date !== undefined) {
+            const converter = await this.getConverter(userId);
+            const home = converter.convert(
+                (changes.amount ?? current.amount) as number,
+                (changes.currency ?? current.currency) as string,
+                (changes.date ?? current.date) as string
+            );
+            changes.home = home || FieldValue.delete();
+        }
+        if (changes.description !== undefined || changes.merchant !== undefined) {
+            changes.searchTokens = buildSearchTokens(
+                (changes.description ?? current.description) as string,
+                (changes.merchant ?? current.merchant) as string
+            );
+        }
+        if (changes.merchant !== undefined) {
+            changes.merchantKey = toMerchantKey(changes.merchant as string);
+        }
+
+        await docRef.update({
+            ...changes,
+            parsed: current.parsed || pickParsedValues(current),
+            editedFields: [...editedFields],
+            editedAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+        });
+
+        return this.getTransaction(userId, transactionId);
+    }
+
+    /**
+     * Set the category of a stored transaction as chosen by the user
+     */
+    async updateTransactionCategory(
+        userId: string,
+        transactionId: string,
+        category: string
+    ): Promise<admin.firestore.DocumentData> {
+        return this.updateTransaction(userId, transactionId, { category });
+    }
+
+    /**
+     * Delete a stored transaction
+     */
+    async deleteTransaction(userId: string, transactionId: string): Promise<void> {
+        const docRef = this.transactionRef(userId, transactionId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Transaction not found");
+        }
+        await docRef.delete();
+    }
+
+    /**
+     * Find a transaction the incoming one duplicates, among stored ones and those pending in the current batch
+     * Legacy transactions without a text hash can still match fuzzily
+     */
+    private async findDuplicate(
+        userId: string,
+        incoming: admin.firestore.DocumentData,
+        pending: Map<string, { data: admin.firestore.DocumentData }>
+    ): Promise<{ match: DuplicateMatch; data: admin.firestore.DocumentData } | undefined> {
+        const transactionsRef = this.db.collection("users").doc(userId).collection("transactions");
+        const [exactSnapshot, fuzzySnapshot] = await Promise.all([
+            transactionsRef.where("rawTextHash", "==", incoming.rawTextHash).limit(1).get(),
+            // A defaulted amount of 0 says nothing about the purchase, so only real amounts are compared
+            incoming.amount > 0 ?
+                transactionsRef
+                    .where("amount", "==", incoming.amount)
+                    .where("date", ">=", addDays(incoming.date, -DUPLICATE_WINDOW_DAYS))
+                    .where("date", "<=", addDays(incoming.date, DUPLICATE_WINDOW_DAYS))
+                    .get() :
+                undefined,
+        ]);
+
+        const candidates = [
+            ...[...pending].map(([id, { data }]) => ({ id, data })),
+            ...[...exactSnapshot.docs, ...(fuzzySnapshot?.docs || [])].map((doc) => ({ id: doc.id, data: doc.data() })),
+        ];
+        return matchDuplicate(incoming, candidates);
+    }
+
+    /**
+     * ID of the transaction already stored, or pending in the current batch, under a client ID
+     */
+    private async findByClientId(
+        userId: string,
+        clientId: string,
+        pending: Map<string, { data: admin.firestore.DocumentData }>
+    ): Promise<string | undefined> {
+        for (const [id, { data }] of pending) {
+            if (data.clientId === clientId) return id;
+        }
+
+        const snapshot = await this.db
+            .collection("users")
+            .doc(userId)
+            .collection("transactions")
+            .where("clientId", "==", clientId)
+            .limit(1)
+            .get();
+        return snapshot.empty ? undefined : snapshot.docs[0].id;
+    }
+
+    /**
+     * Converter into the user's current home currency
+     */
+    private async getConverter(userId: string): Promise<CurrencyConverter> {
+        return this.fxService.getConverter(await this.userService.getHomeCurrency(userId));
+    }
+
+    /**
+     * users/{id}/transactions/{transactionId} document reference
+     */
+    private transactionRef(userId: string, transactionId: string) {
+        return this.db
+            .collection("users")
+            .doc(userId)
+            .collection("transactions")
+            .doc(transactionId);
+    }
+}
+
+/**
+ * Document shape for a parsed transaction: adds search tokens, the merchant key recurrence is grouped by,
+ * the message hash used for duplicate detection and the home-currency amount, and drops the response-only explain output
+ */
+function toStoredTransaction(transaction: ParsedTransaction, converter: CurrencyConverter): Record<string, unknown> {
+    const home = converter.convert(transaction.amount, transaction.currency, transaction.date);
+    const stored: Record<string, unknown> = {
+        ...transaction,
+        searchTokens: buildSearchTokens(transaction.description, transaction.merchant),
+        merchantKey: toMerchantKey(transaction.merchant),
+        rawTextHash: hashRawText(transaction.rawText),
+        ...(home && { home }),
+    };
+    if (transaction.parseInfo?.spans) {
+        stored.parseInfo = { ...transaction.parseInfo };
+        delete (stored.parseInfo as ParseInfo).spans;
+        delete (stored.parseInfo as ParseInfo).normalizedText;
+    }
+    return stored;
+}
+
+/**
+ * SHA-256 of the message text, ignoring digit scripts, letter variants and whitespace differences
+ */
+function hashRawText(rawText: string): string {
+    return createHash("sha256").update(normalizeText(rawText).replace(/\s+/g, " ").trim()).digest("hex");
+}
+
+/**
+ * Cursor after the last document of a page fetched with one extra document; null when there is no next page
+ */
+export function nextPageCursor(
+    docs: Array<Pick<admin.firestore.QueryDocumentSnapshot, "id" | "get">>,
+    limit: number,
+    sortBy: string,
+    order: "asc" | "desc"
+): string | null {
+    const lastDoc = docs[limit - 1];
+    return docs.length > limit && lastDoc ?
+        encodeCursor({ sortBy, order, value: lastDoc.get(sortBy), id: lastDoc.id }) :
+        null;
+}
+
+/**
+ * A detected recurrence tagged with its series: the first seriesId an earlier payment carries, or this transaction's id
+ */
+export function toSeriesRecurrence(
+    recurrence: TransactionRecurrence,
+    matches: RecurrenceCandidate[],
+    transactionId: string
+): TransactionRecurrence {
+    return {
+        ...recurrence,
+        seriesId: matches.map((match) => match.recurrence?.seriesId).find(Boolean) || transactionId,
+    };
+}
+
+/**
+ * The first candidate the incoming transaction duplicates: an exact text match wins over a fuzzy one
+ * A fuzzy match needs the same amount, currency and direction within the date window, plus the same
+ * merchant or a shared account/card number; a refund of a purchase is not its duplicate
+ */
+export function matchDuplicate(
+    incoming: admin.firestore.DocumentData,
+    candidates: Array<{ id: string; data: admin.firestore.DocumentData }>
+): { match: DuplicateMatch; data: admin.firestore.DocumentData } | undefined {
+    const exact = candidates.find((candidate) => candidate.data.rawTextHash === incoming.rawTextHash);
+    if (exact) {
+        return { match: { transactionId: exact.id, match: "exact", matchedOn: ["rawText"] }, data: exact.data };
+    }
+    if (!(incoming.amount > 0)) {
+        return undefined;
+    }
+
+    for (const { id, data } of candidates) {
+        if (data.amount !== incoming.amount ||
+            data.currency !== incoming.currency ||
+            (data.direction || "debit") !== incoming.direction ||
+            Math.abs(daysBetween(data.date, incoming.date)) > DUPLICATE_WINDOW_DAYS) {
+            continue;
+        }
+
+        const matchedOn = ["amount", "date"];
+        if (incoming.merchant !== "Unknown Merchant" && toMerchantKey(data.merchant || "") === toMerchantKey(incoming.merchant)) {
+            matchedOn.push("merchant");
+        }
+        const accountNumbers = accountDigits(data.accountMasked);
+        if (accountDigits(incoming.accountMasked).some((digits) => accountNumbers.includes(digits))) {
+            matchedOn.push("account");
+        }
+        if (matchedOn.length > 2) {
+            return { match: { transactionId: id, match: "fuzzy", matchedOn }, data };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Fields to update when a duplicate message is merged into a stored transaction
+ * A new message text is recorded as another source, and fields the stored parse could not find are filled in
+ */
+function mergeDuplicate(existing: admin.firestore.DocumentData, incoming: admin.firestore.DocumentData): Record<string, unknown> {
+    const changes: Record<string, unknown> = {};
+
+    const sources: Array<{ rawText: string }> = existing.duplicateSources || [];
+    if (incoming.rawText !== existing.rawText && !sources.some((source) => source.rawText === incoming.rawText)) {
+        changes.duplicateSources = [
+            ...sources,
+            { rawText: incoming.rawText, ...(incoming.bankFormat && { bankFormat: incoming.bankFormat }) },
+        ];
+    }
+
+    if (existing.merchant === "Unknown Merchant" && incoming.merchant !== "Unknown Merchant") {
+        changes.merchant = incoming.merchant;
+        changes.merchantKey = incoming.merchantKey;
+        changes.searchTokens = buildSearchTokens(existing.description, incoming.merchant);
+    }
+    if (existing.accountMasked === "N/A" && incoming.accountMasked !== "N/A") {
+        changes.accountMasked = incoming.accountMasked;
+    }
+    const details = { ...incoming.details, ...existing.details };
+    if (Object.keys(details).length > Object.keys(existing.details || {}).length) {
+        changes.details = details;
+    }
+    return changes;
+}
+
+/**
+ * Digit groups of a masked account, e.g. "4521* / 0165*" -> ["4521", "0165"]
+ */
+function accountDigits(accountMasked: string | undefined): string[] {
+    return (accountMasked || "").match(/\d+/g) || [];
+}
+
+/**
+ * The field a listing filters by range, if any; the validator allows only one
+ */
+function toRangeField(options: TransactionQueryOptions): "date" | "amount" | undefined {
+    if (options.dateFrom || options.dateTo) {
+        return "date";
+    }
+    if (options.minAmount !== undefined || options.maxAmount !== undefined) {
+        return "amount";
+    }
+    return undefined;
+}
+
+/**
+ * Fill in the home-currency amount of a transaction read back from Firestore
+ * The stamp written with the transaction is kept while the user's home currency is unchanged;
+ * transactions stored before a rate existed, or in another home currency, are converted now
+ */
+function withHomeAmount(transaction: admin.firestore.DocumentData, converter: CurrencyConverter): admin.firestore.DocumentData {
+    if ((transaction.home as HomeAmount | undefined)?.currency === converter.currency) {
+        return transaction;
+    }
+
+    const converted = { ...transaction };
+    delete converted.home;
+    const home = converter.convert(Number(transaction.amount) || 0, transaction.currency || "SAR", transaction.date);
+    return home ? { ...converted, home } : converted;
+}
+
+/**
+ * Snapshot of the parser's output for the fields a user is allowed to edit
+ */
+function pickParsedValues(data: admin.firestore.DocumentData): Partial<ParsedTransaction> {
+    const parsed: Record<string, unknown> = {};
+    EDITABLE_FIELDS.forEach((field) => {
+        if (field !== "note" && data[field] !== undefined) {
+            parsed[field] = data[field];
+        }
+    });
+    return parsed as Partial<ParsedTransaction>;
 }
@@ -0,0 +1,265 @@
+import { createHash } from "crypto";
+import { admin, Timestamp } from "../config/firebase";
+import { FieldValue } from "firebase-admin/firestore";
+import { CategoryFeedback, StoredCategoryRule, StoredMerchantAlias, UserRuleSet } from "../routes/transactions/types";
+import { toMerchantKey } from "../routes/transactions/utils";
+import { stripUndefined } from "../utils/firestore";
+
+/**
+ * Service class for user-scoped category rules, merchant aliases and learned categories
+ * Stored under users/{id}/categoryRules, users/{id}/merchantAliases and users/{id}/categoryFeedback
+ */
+export class UserRuleService {
+    private readonly db = admin.firestore();
+
+    /**
+     * Load a user's rules in the shape the parser expects
+     */
+    async getUserRuleSet(userId: string): Promise<UserRuleSet> {
+        const [categoryRules, merchantAliases, feedback] = await Promise.all([
+            this.listCategoryRules(userId),
+            this.listMerchantAliases(userId),
+            this.listCategoryFeedback(userId),
+        ]);
+
+        const learnedCategories: Record<string, string> = {};
+        feedback.forEach((entry) => {
+            // Re-derive the key so entries stored before text normalization still match
+            learnedCategories[toMerchantKey(entry.merchantKey)] = entry.category;
+        });
+
+        return {
+            categoryRules: categoryRules.map(({ keywords, category, priority }) => ({ keywords, category, priority })),
+            merchantAliases: merchantAliases.map((alias) => ({
+                pattern: toLiteralPattern(alias.pattern),
+                normalizedName: alias.normalizedName,
+                category: alias.category,
+            })),
+            learnedCategories,
+        };
+    }
+
+    /**
+     * List a user's category rules, highest priority first
+     */
+    async listCategoryRules(userId: string): Promise<StoredCategoryRule[]> {
+        const snapshot = await this.categoryRulesCollection(userId).orderBy("priority", "desc").get();
+
+        return snapshot.docs.map(toCategoryRule);
+    }
+
+    /**
+     * Create a user category rule
+     */
+    async createCategoryRule(
+        userId: string,
+        rule: { keywords: string[]; category: string; priority: number }
+    ): Promise<StoredCategoryRule> {
+        const docRef = await this.categoryRulesCollection(userId).add({
+            keywords: rule.keywords,
+            category: rule.category.trim(),
+            priority: rule.priority,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+        });
+
+        return { id: docRef.id, ...rule, category: rule.category.trim() };
+    }
+
+    /**
+     * Update a user category rule
+     */
+    async updateCategoryRule(
+        userId: string,
+        ruleId: string,
+        updates: { keywords?: string[]; category?: string; priority?: number }
+    ): Promise<StoredCategoryRule> {
+        const docRef = this.categoryRulesCollection(userId).doc(ruleId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Category rule not found");
+        }
+
+        await docRef.update({
+            ...stripUndefined(updates),
+            updatedAt: Timestamp.now(),
+        });
+
+        return toCategoryRule(await docRef.get());
+    }
+
+    /**
+     * Delete a user category rule
+     */
+    async deleteCategoryRule(userId: string, ruleId: string): Promise<void> {
+        const docRef = this.categoryRulesCollection(userId).doc(ruleId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Category rule not found");
+        }
+        await docRef.delete();
+    }
+
+    /**
+     * List a user's merchant aliases
+     */
+    async listMerchantAliases(userId: string): Promise<StoredMerchantAlias[]> {
+        const snapshot = await this.merchantAliasesCollection(userId).orderBy("createdAt", "asc").get();
+
+        return snapshot.docs.map(toMerchantAlias);
+    }
+
+    /**
+     * Create a user merchant alias
+     */
+    async createMerchantAlias(
+        userId: string,
+        alias: { pattern: string; normalizedName?: string; category?: string }
+    ): Promise<StoredMerchantAlias> {
+        const data = stripUndefined(alias);
+        const docRef = await this.merchantAliasesCollection(userId).add({
+            ...data,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+        });
+
+        return { id: docRef.id, pattern: alias.pattern, ...data };
+    }
+
+    /**
+     * Update a user merchant alias
+     */
+    async updateMerchantAlias(
+        userId: string,
+        aliasId: string,
+        updates: { pattern?: string; normalizedName?: string; category?: string }
+    ): Promise<StoredMerchantAlias> {
+        const docRef = this.merchantAliasesCollection(userId).doc(aliasId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Merchant alias not found");
+        }
+
+        await docRef.update({
+            ...stripUndefined(updates),
+            updatedAt: Timestamp.now(),
+        });
+
+        return toMerchantAlias(await docRef.get());
+    }
+
+    /**
+     * Delete a user merchant alias
+     */
+    async deleteMerchantAlias(userId: string, aliasId: string): Promise<void> {
+        const docRef = this.merchantAliasesCollection(userId).doc(aliasId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Merchant alias not found");
+        }
+        await docRef.delete();
+    }
+
+    /**
+     * List the merchant -> category mappings learned from the user's corrections
+     */
+    async listCategoryFeedback(userId: string): Promise<CategoryFeedback[]> {
+        const snapshot = await this.categoryFeedbackCollection(userId).get();
+
+        return snapshot.docs.map((doc) => ({
+            id: doc.id,
+            merchant: doc.get("merchant"),
+            merchantKey: doc.get("merchantKey"),
+            category: doc.get("category"),
+            corrections: doc.get("corrections") || 0,
+        }));
+    }
+
+    /**
+     * Record that the user filed a merchant under a category
+     * The latest correction wins; the counter tracks how often the user corrected this merchant.
+     * Transactions without a recognised merchant teach nothing, as every such transaction would share the key.
+     */
+    async recordCategoryFeedback(userId: string, merchant: string, category: string): Promise<void> {
+        const merchantKey = toMerchantKey(merchant || "");
+        if (!merchantKey || merchant === "Unknown Merchant") {
+            return;
+        }
+        await this.categoryFeedbackCollection(userId).doc(feedbackDocId(merchantKey)).set({
+            merchant,
+            merchantKey,
+            category,
+            corrections: FieldValue.increment(1),
+            updatedAt: Timestamp.now(),
+        }, { merge: true });
+    }
+
+    /**
+     * Forget a learned merchant -> category mapping
+     */
+    async deleteCategoryFeedback(userId: string, feedbackId: string): Promise<void> {
+        const docRef = this.categoryFeedbackCollection(userId).doc(feedbackId);
+        if (!(await docRef.get()).exists) {
+            throw new Error("Learned category not found");
+        }
+        await docRef.delete();
+    }
+
+    /**
+     * users/{id}/categoryRules collection reference
+     */
+    private categoryRulesCollection(userId: string) {
+        return this.db.collection("users").doc(userId).collection("categoryRules");
+    }
+
+    /**
+     * users/{id}/merchantAliases collection reference
+     */
+    private merchantAliasesCollection(userId: string) {
+        return this.db.collection("users").doc(userId).collection("merchantAliases");
+    }
+
+    /**
+     * users/{id}/categoryFeedback collection reference
+     */
+    private categoryFeedbackCollection(userId: string) {
+        return this.db.collection("users").doc(userId).collection("categoryFeedback");
+    }
+}
+
+/**
+ * Merchant names may contain "/" and other characters Firestore rejects in IDs, so hash the key
+ */
+function feedbackDocId(merchantKey: string): string {
+    return createHash("sha1").update(merchantKey).digest("hex");
+}
+
+/**
+ * Map a Firestore document to a stored category rule
+ */
+function toCategoryRule(doc: admin.firestore.DocumentSnapshot): StoredCategoryRule {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        keywords: data.keywords,
+        category: data.category,
+        priority: data.priority,
+    };
+}
+
+/**
+ * Compile an alias pattern as plain text matched anywhere in the merchant, ignoring case
+ * Alias patterns come from users, so regex syntax is escaped rather than run
+ */
+export function toLiteralPattern(pattern: string): RegExp {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+}
+
+/**
+ * Map a Firestore document to a stored merchant alias
+ */
+function toMerchantAlias(doc: admin.firestore.DocumentSnapshot): StoredMerchantAlias {
+    const data = doc.data() || {};
+    return {
+        id: doc.id,
+        pattern: data.pattern,
+        ...(data.normalizedName && { normalizedName: data.normalizedName }),
+        ...(data.category && { category: data.category }),
+    };
+}
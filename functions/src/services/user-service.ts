@@ -1,4 +1,5 @@
 import { admin, Timestamp } from "../config/firebase";
+import { DEFAULT_HOME_CURRENCY } from "../routes/transactions/const";
 
 /**
  * Service class for user-related operations
@@ -10,8 +11,12 @@ export class UserService {
 
     /**
      * Create a new user
+     * When a uid is given the profile is stored at users/{uid} so it lines up with the Firebase Auth account
      */
-    async createUser(userData: { name: string; email: string }): Promise<{ userId: string; name: string; email: string }> {
+    async createUser(
+        userData: { name: string; email: string },
+        uid?: string
+    ): Promise<{ userId: string; name: string; email: string }> {
         const { name, email } = userData;
 
         // Validate input at service level
@@ -19,20 +24,26 @@ export class UserService {
             throw new Error("Name and email are required");
         }
 
-        // Check if user already exists
-        const existingUser = await this.usersCollection.where("email", "==", email).limit(1).get();
+        // Check if user already exists; emails are stored lowercase
+        const normalizedEmail = email.toLowerCase().trim();
+        const existingUser = await this.usersCollection.where("email", "==", normalizedEmail).limit(1).get();
         if (!existingUser.empty) {
             throw new Error("User with this email already exists");
         }
 
-        const userDoc = await this.usersCollection.add({
+        const userRef = uid ? this.usersCollection.doc(uid) : this.usersCollection.doc();
+        if (uid && (await userRef.get()).exists) {
+            throw new Error("User profile already exists");
+        }
+
+        await userRef.set({
             name: name.trim(),
-            email: email.toLowerCase().trim(),
+            email: normalizedEmail,
             createdAt: Timestamp.now(),
             updatedAt: Timestamp.now(),
         });
 
-        return { userId: userDoc.id, name, email };
+        return { userId: userRef.id, name, email };
     }
 
     /**
@@ -45,4 +56,99 @@ export class UserService {
         }
         return { id: userDoc.id, ...userDoc.data() };
     }
+
+    /**
+     * Update a user's profile fields and settings
+     */
+    async updateUser(
+        userId: string,
+        updates: { name?: string; email?: string; strictParsing?: boolean; homeCurrency?: string }
+    ): Promise<admin.firestore.DocumentData> {
+        const userRef = this.usersCollection.doc(userId);
+        const userDoc = await userRef.get();
+        if (!userDoc.exists) {
+            throw new Error("User not found");
+        }
+
+        const changes: Record<string, unknown> = {};
+
+        if (updates.name !== undefined) {
+            changes.name = updates.name.trim();
+        }
+
+        if (updates.email !== undefined) {
+            const email = updates.email.toLowerCase().trim();
+            if (email !== userDoc.get("email")) {
+                const existingUser = await this.usersCollection.where("email", "==", email).limit(1).get();
+                if (!existingUser.empty && existingUser.docs[0].id !== userId) {
+                    throw new Error("User with this email already exists");
+                }
+            }
+            changes.email = email;
+        }
+
+        if (updates.strictParsing !== undefined) {
+            changes["settings.strictParsing"] = updates.strictParsing;
+        }
+
+        if (updates.homeCurrency !== undefined) {
+            changes["settings.homeCurrency"] = updates.homeCurrency;
+        }
+
+        await userRef.update({
+            ...changes,
+            updatedAt: Timestamp.now(),
+        });
+
+        return this.getUserById(userId);
+    }
+
+    /**
+     * Delete a user together with every document nested under users/{id}
+     * The profile is marked first and removed last, so a failed delete can be retried
+     */
+    async deleteUser(userId: string): Promise<void> {
+        const userRef = this.usersCollection.doc(userId);
+        const userDoc = await userRef.get();
+        if (!userDoc.exists) {
+            throw new Error("User not found");
+        }
+
+        // recursiveDelete removes the subcollections before the user document, and each transaction it deletes
+        // fires the summary trigger; the mark tells the trigger not to write summaries back meanwhile
+        await userRef.update({ deletingAt: Timestamp.now() });
+        await this.db.recursiveDelete(userRef);
+    }
+
+    /**
+     * Whether the user wants messages without a matched amount, currency or date rejected by default
+     */
+    async getStrictParsing(userId: string): Promise<boolean> {
+        const userDoc = await this.usersCollection.doc(userId).get();
+        if (!userDoc.exists) {
+            throw new Error("User not found");
+        }
+        return userDoc.get("settings.strictParsing") === true;
+    }
+
+    /**
+     * Currency the user's totals are reported in, SAR unless they chose another
+     */
+    async getHomeCurrency(userId: string): Promise<string> {
+        const userDoc = await this.usersCollection.doc(userId).get();
+        if (!userDoc.exists) {
+            throw new Error("User not found");
+        }
+        return userDoc.get("settings.homeCurrency") || DEFAULT_HOME_CURRENCY;
+    }
+
+    /**
+     * Ensure a user document exists before writing into its subtree
+     */
+    async assertUserExists(userId: string): Promise<void> {
+        const userDoc = await this.usersCollection.doc(userId).get();
+        if (!userDoc.exists) {
+            throw new Error("User not found");
+        }
+    }
 }
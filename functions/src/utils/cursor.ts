@@ -0,0 +1,45 @@
+import { Timestamp } from "../config/firebase";
+import { AppError } from "../middleware/error-handler";
+
+/**
+ * Opaque pagination cursor: the sort key and document ID of the last item on a page
+ */
+interface CursorPayload {
+    sortBy: string;
+    order: "asc" | "desc";
+    value: unknown;
+    id: string;
+}
+
+/**
+ * Encode the position after a document as a URL-safe token
+ */
+export function encodeCursor(payload: CursorPayload): string {
+    const value = payload.value instanceof Timestamp ?
+        { _ts: [payload.value.seconds, payload.value.nanoseconds] } :
+        payload.value;
+
+    return Buffer.from(JSON.stringify({ ...payload, value })).toString("base64url");
+}
+
+/**
+ * Decode a cursor token, checking it was issued for the same sort
+ * A token that was not issued by encodeCursor is a 400, never a failed query
+ */
+export function decodeCursor(token: string, sortBy: string, order: "asc" | "desc"): { value: unknown; id: string } {
+    let payload: CursorPayload;
+    let value: unknown;
+    try {
+        payload = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+        const raw = payload?.value as { _ts?: [number, number] } | null;
+        value = raw && Array.isArray(raw._ts) ? new Timestamp(raw._ts[0], raw._ts[1]) : payload?.value;
+    } catch (error) {
+        throw new AppError("Cursor is invalid", 400);
+    }
+
+    if (!payload || typeof payload.id !== "string" || payload.sortBy !== sortBy || payload.order !== order) {
+        throw new AppError("Cursor is invalid for the requested sort order", 400);
+    }
+
+    return { value, id: payload.id };
+}
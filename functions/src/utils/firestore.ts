@@ -0,0 +1,12 @@
+/**
+ * Drop undefined values so partial updates don't clear fields
+ */
+export function stripUndefined<T extends object>(updates: T): Partial<T> {
+    const result: Partial<T> = {};
+    for (const [key, value] of Object.entries(updates)) {
+        if (value !== undefined) {
+            result[key as keyof T] = value;
+        }
+    }
+    return result;
+}
@@ -14,9 +14,10 @@ export interface ApiResponse<T = any> {
     };
     pagination?: {
         limit: number;
-        offset: number;
+        offset?: number;
         total: number;
         hasMore: boolean;
+        nextCursor?: string | null; // Pass back as `cursor` to fetch the next page
     };
     meta?: {
         timestamp: string;
@@ -99,18 +100,22 @@ export function sendNoContent(res: Response): Response {
 
 /**
  * Paginated response helper
+ * Cursor-paginated callers pass nextCursor; hasMore then follows from whether one was issued
  */
 export function sendPaginated<T>(
     res: Response,
     data: T[],
     pagination: {
         limit: number;
-        offset: number;
+        offset?: number;
         total: number;
+        nextCursor?: string | null;
     },
     message: string = "Data retrieved successfully"
 ): Response<ApiResponse<T[]>> {
-    const hasMore = pagination.offset + pagination.limit < pagination.total;
+    const hasMore = pagination.nextCursor !== undefined ?
+        pagination.nextCursor !== null :
+        (pagination.offset || 0) + pagination.limit < pagination.total;
 
     return sendSuccess(
         res,
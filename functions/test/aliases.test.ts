@@ -0,0 +1,16 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { toLiteralPattern } from "../src/services/user-rule-service";
+
+test("an alias pattern matches its text anywhere in the merchant, ignoring case", () => {
+    const pattern = toLiteralPattern("hunger station");
+
+    assert.equal(pattern.test("HUNGER STATION RIYADH"), true);
+    assert.equal(pattern.test("Hungerstation"), false);
+});
+
+test("regex syntax in an alias pattern is matched literally", () => {
+    assert.equal(toLiteralPattern("A.B").test("AXB"), false);
+    assert.equal(toLiteralPattern("A.B (KSA)").test("a.b (ksa) jeddah"), true);
+    assert.equal(toLiteralPattern("(a+)+$").test("aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!"), false);
+});
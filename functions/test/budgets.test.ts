@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { crossedThresholds } from "../src/services/budget-service";
+
+test("spend reaching a threshold crosses it", () => {
+    assert.deepEqual(crossedThresholds(1000, 700, 800), [80]);
+    assert.deepEqual(crossedThresholds(1000, 950, 1000), [100]);
+});
+
+test("one write can cross several thresholds", () => {
+    assert.deepEqual(crossedThresholds(1000, 0, 1200), [80, 100]);
+});
+
+test("spend already past a threshold does not cross it again", () => {
+    assert.deepEqual(crossedThresholds(1000, 800, 900), []);
+    assert.deepEqual(crossedThresholds(1000, 1000, 1500), []);
+});
+
+test("spend going down crosses nothing", () => {
+    assert.deepEqual(crossedThresholds(1000, 1200, 500), []);
+});
+
+test("spend below every threshold crosses nothing", () => {
+    assert.deepEqual(crossedThresholds(1000, 100, 799.99), []);
+});
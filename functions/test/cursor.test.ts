@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { Timestamp } from "../src/config/firebase";
+import { AppError } from "../src/middleware/error-handler";
+import { decodeCursor, encodeCursor } from "../src/utils/cursor";
+import { nextPageCursor } from "../src/services/transaction-service";
+
+/**
+ * Whether an error is the 400 a bad cursor should produce
+ */
+function isBadRequest(error: unknown): boolean {
+    return error instanceof AppError && error.statusCode === 400;
+}
+
+test("a cursor decodes to the sort value and document ID it was issued for", () => {
+    const token = encodeCursor({ sortBy: "date", order: "desc", value: "2025-03-14", id: "tx1" });
+
+    assert.match(token, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(decodeCursor(token, "date", "desc"), { value: "2025-03-14", id: "tx1" });
+});
+
+test("a timestamp sort value round-trips as a Timestamp", () => {
+    const createdAt = new Timestamp(1741939200, 123000000);
+    const { value } = decodeCursor(encodeCursor({ sortBy: "createdAt", order: "asc", value: createdAt, id: "tx1" }), "createdAt", "asc");
+
+    assert.ok(value instanceof Timestamp);
+    assert.ok(value.isEqual(createdAt));
+});
+
+test("a cursor issued for another sort is a 400", () => {
+    const token = encodeCursor({ sortBy: "date", order: "desc", value: "2025-03-14", id: "tx1" });
+
+    assert.throws(() => decodeCursor(token, "amount", "desc"), isBadRequest);
+    assert.throws(() => decodeCursor(token, "date", "asc"), isBadRequest);
+});
+
+test("a tampered or made-up cursor is a 400", () => {
+    const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+    assert.throws(() => decodeCursor("not-a-cursor", "date", "desc"), isBadRequest);
+    assert.throws(() => decodeCursor(encode(null), "date", "desc"), isBadRequest);
+    assert.throws(() => decodeCursor(encode({ sortBy: "date", order: "desc", value: "x", id: 7 }), "date", "desc"), isBadRequest);
+    assert.throws(
+        () => decodeCursor(encode({ sortBy: "createdAt", order: "desc", value: { _ts: ["x", 0] }, id: "tx1" }), "createdAt", "desc"),
+        isBadRequest
+    );
+});
+
+test("only a page with a document beyond the limit has a next cursor", () => {
+    const docs = ["a", "b", "c"].map((id, index) => ({ id, get: () => `2025-03-0${index + 1}` }));
+
+    const token = nextPageCursor(docs, 2, "date", "asc");
+    assert.ok(token);
+    assert.deepEqual(decodeCursor(token, "date", "asc"), { value: "2025-03-02", id: "b" });
+
+    assert.equal(nextPageCursor(docs, 3, "date", "asc"), null);
+    assert.equal(nextPageCursor(docs.slice(0, 1), 2, "date", "asc"), null);
+    assert.equal(nextPageCursor([], 2, "date", "asc"), null);
+});
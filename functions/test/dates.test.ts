@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { InvalidDateError, hasHijriMarker, normalizeDate } from "../src/routes/transactions/dates";
+import { parseTransaction } from "../src/routes/transactions/utils";
+
+const receivedAt = new Date("2025-03-15T09:00:00+03:00");
+const newYear = new Date("2025-01-02T09:00:00+03:00");
+
+test("day first is the default order, and a leading 4-digit year reads year first", () => {
+    assert.equal(normalizeDate("14/03/2025", { receivedAt }), "2025-03-14");
+    assert.equal(normalizeDate("14.3.2025", { receivedAt }), "2025-03-14");
+    assert.equal(normalizeDate("2025-03-14", { receivedAt }), "2025-03-14");
+    assert.equal(normalizeDate("03/14/2025", { receivedAt, format: "MDY" }), "2025-03-14");
+    assert.equal(normalizeDate("25/03/14", { receivedAt, format: "YMD" }), "2025-03-14");
+});
+
+test("a 2-digit year takes the century nearest the receipt year", () => {
+    assert.equal(normalizeDate("14/03/25", { receivedAt }), "2025-03-14");
+    assert.equal(normalizeDate("14/03/99", { receivedAt }), "1999-03-14");
+    assert.equal(normalizeDate("30/12/24", { receivedAt: newYear }), "2024-12-30");
+});
+
+test("a truncated 1- or 3-digit year never puts the date after receipt, across the New Year", () => {
+    assert.equal(normalizeDate("30/12/2", { receivedAt: newYear }), "2024-12-30");
+    assert.equal(normalizeDate("30/12/202", { receivedAt: newYear }), "2024-12-30");
+    assert.equal(normalizeDate("01/01/202", { receivedAt: newYear }), "2025-01-01");
+    assert.equal(normalizeDate("14/03/202", { receivedAt }), "2025-03-14");
+});
+
+test("a 1-digit year that is not a cut-off receipt year is its last digit", () => {
+    assert.equal(normalizeDate("05/03/9", { receivedAt }), "2019-03-05");
+    assert.equal(normalizeDate("16/03/5", { receivedAt }), "2015-03-16");
+});
+
+test("a missing date is the receipt day in Riyadh", () => {
+    assert.equal(normalizeDate(undefined, { receivedAt: new Date("2025-03-14T22:30:00Z") }), "2025-03-15");
+});
+
+test("Hijri dates are detected by their year or marker and converted", () => {
+    assert.equal(normalizeDate("12-05-1446", { receivedAt }), "2024-11-14");
+    assert.equal(normalizeDate("1446/09/01", { receivedAt }), "2025-03-01");
+    assert.equal(normalizeDate("01-09-46", { receivedAt, hijri: true }), "2025-03-01");
+
+    assert.equal(hasHijriMarker("في 01-09-46هـ", "01-09-46"), true);
+    assert.equal(hasHijriMarker("في 01-09-46 AH", "01-09-46"), true);
+    assert.equal(hasHijriMarker("في 01-09-46 هاتف", "01-09-46"), false);
+    assert.equal(hasHijriMarker("في 01-09-2025", undefined), false);
+});
+
+test("dates that do not exist are rejected", () => {
+    assert.throws(() => normalizeDate("31-02-2025", { receivedAt }), InvalidDateError);
+    assert.throws(() => normalizeDate("29/02/2025", { receivedAt }), /day 29 does not exist in 2025-02/);
+    assert.throws(() => normalizeDate("14/13/2025", { receivedAt }), /month 13 does not exist/);
+    assert.throws(() => normalizeDate("yesterday", { receivedAt }), /unrecognized format/);
+    assert.throws(() => normalizeDate("30-08-1446", { receivedAt }), /does not exist in Hijri month 8\/1446/);
+    assert.equal(normalizeDate("29/02/2024", { receivedAt }), "2024-02-29");
+});
+
+test("outside strict mode an invalid date falls back to the receipt day with a warning", () => {
+    const text = "شراء\nبـ 50.00 SAR\nمن KUDU\nفي 31-02-2025";
+    const parsed = parseTransaction(text, undefined, { receivedAt });
+
+    assert.equal(parsed.date, "2025-03-15");
+    assert.equal(parsed.parseInfo.fields.date.source, "default");
+    assert.ok(parsed.parseInfo.warnings.includes("Date '31-02-2025' does not exist; defaulted to the day received"));
+    assert.throws(() => parseTransaction(text, undefined, { receivedAt, strict: true }), InvalidDateError);
+});
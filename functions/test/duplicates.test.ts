@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { matchDuplicate } from "../src/services/transaction-service";
+
+const stored = {
+    rawTextHash: "stored-hash",
+    amount: 21.99,
+    currency: "SAR",
+    direction: "debit",
+    date: "2025-01-31",
+    merchant: "Spotify AB",
+    accountMasked: "0165*",
+};
+
+/**
+ * An incoming transaction that differs from the stored one only by its text and the given fields
+ */
+function incoming(changes: Record<string, unknown> = {}) {
+    return { ...stored, rawTextHash: "incoming-hash", ...changes };
+}
+
+test("the same message text is an exact duplicate", () => {
+    const result = matchDuplicate(incoming({ rawTextHash: "stored-hash", amount: 0 }), [{ id: "a", data: stored }]);
+
+    assert.deepEqual(result?.match, { transactionId: "a", match: "exact", matchedOn: ["rawText"] });
+});
+
+test("the same amount and merchant a day apart is a fuzzy duplicate, across a month end", () => {
+    const result = matchDuplicate(incoming({ date: "2025-02-01" }), [{ id: "a", data: stored }]);
+
+    assert.deepEqual(result?.match, { transactionId: "a", match: "fuzzy", matchedOn: ["amount", "date", "merchant", "account"] });
+});
+
+test("a match outside the date window is not a duplicate", () => {
+    assert.equal(matchDuplicate(incoming({ date: "2025-02-02" }), [{ id: "a", data: stored }]), undefined);
+    assert.equal(matchDuplicate(incoming({ date: "2025-01-29" }), [{ id: "a", data: stored }]), undefined);
+});
+
+test("amount and date alone are not enough for a fuzzy duplicate", () => {
+    const result = matchDuplicate(
+        incoming({ merchant: "Unknown Merchant", accountMasked: "9999*" }),
+        [{ id: "a", data: stored }]
+    );
+
+    assert.equal(result, undefined);
+});
+
+test("an unknown merchant still matches on a shared account number", () => {
+    const result = matchDuplicate(incoming({ merchant: "Unknown Merchant" }), [{ id: "a", data: stored }]);
+
+    assert.deepEqual(result?.match.matchedOn, ["amount", "date", "account"]);
+});
+
+test("a refund, another currency or a defaulted amount is not a fuzzy duplicate", () => {
+    const candidates = [{ id: "a", data: stored }];
+
+    assert.equal(matchDuplicate(incoming({ direction: "credit" }), candidates), undefined);
+    assert.equal(matchDuplicate(incoming({ currency: "USD" }), candidates), undefined);
+    assert.equal(matchDuplicate(incoming({ amount: 0 }), [{ id: "a", data: { ...stored, amount: 0 } }]), undefined);
+});
+
+test("transactions stored before direction detection count as debits", () => {
+    const { direction, ...legacy } = stored;
+    const result = matchDuplicate(incoming({ direction }), [{ id: "a", data: legacy }]);
+
+    assert.equal(result?.match.match, "fuzzy");
+});
@@ -0,0 +1,60 @@
+import { admin } from "../src/config/firebase";
+
+// Services open Firestore when they are constructed, some of them on import; without credentials the
+// client is never used for a request, so tests import this module before any such service
+if (!admin.apps.length) {
+    admin.initializeApp({ projectId: "demo-test" });
+}
+
+type DocumentData = Record<string, unknown>;
+
+/**
+ * Document reference of the in-memory store
+ */
+export interface FakeDocumentRef {
+    path: string;
+    update(data: DocumentData): Promise<void>;
+    delete(): Promise<void>;
+}
+
+/**
+ * The parts of Firestore a service under test uses, backed by a map of document path to data
+ */
+export interface FakeFirestore {
+    docs: Map<string, DocumentData>;
+    collection(name: string): { doc(id: string): FakeDocumentRef };
+    runTransaction<T>(update: (tx: {
+        get(ref: FakeDocumentRef): Promise<{ exists: boolean; get(field: string): unknown }>;
+        set(ref: FakeDocumentRef, data: DocumentData): void;
+    }) => Promise<T>): Promise<T>;
+}
+
+/**
+ * An empty in-memory Firestore; assign it over a service's db to test the service without a backend
+ */
+export function fakeFirestore(): FakeFirestore {
+    const docs = new Map<string, DocumentData>();
+    const ref = (path: string): FakeDocumentRef => ({
+        path,
+        update: async (data) => {
+            if (!docs.has(path)) {
+                throw new Error(`No document to update: ${path}`);
+            }
+            docs.set(path, { ...docs.get(path), ...data });
+        },
+        delete: async () => {
+            docs.delete(path);
+        },
+    });
+
+    return {
+        docs,
+        collection: (name) => ({ doc: (id) => ref(`${name}/${id}`) }),
+        runTransaction: (update) => update({
+            get: async ({ path }) => ({ exists: docs.has(path), get: (field) => docs.get(path)?.[field] }),
+            set: ({ path }, data) => {
+                docs.set(path, data);
+            },
+        }),
+    };
+}
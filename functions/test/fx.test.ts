@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { convert, parseRatesCsv, rateOn } from "../src/services/fx-service";
+import { ExchangeRate } from "../src/routes/transactions/types";
+
+// Oldest first per currency, as the rate cache keeps them
+const rates = new Map<string, ExchangeRate[]>([
+    ["USD", [
+        { currency: "USD", date: "2025-01-01", rate: 3.75 },
+        { currency: "USD", date: "2025-06-01", rate: 3.76 },
+    ]],
+    ["EUR", [
+        { currency: "EUR", date: "2025-03-01", rate: 4 },
+    ]],
+]);
+
+test("the rate on a date is the latest one on or before it", () => {
+    assert.equal(rateOn(rates, "USD", "2025-05-31")?.rate, 3.75);
+    assert.equal(rateOn(rates, "USD", "2025-06-01")?.rate, 3.76);
+    assert.equal(rateOn(rates, "USD", "2026-01-01")?.rate, 3.76);
+});
+
+test("dates before the first rate use the earliest one", () => {
+    assert.deepEqual(rateOn(rates, "USD", "2024-12-31"), { currency: "USD", date: "2025-01-01", rate: 3.75 });
+});
+
+test("the base currency is always 1 and unknown currencies have no rate", () => {
+    assert.deepEqual(rateOn(rates, "SAR", "2025-01-01"), { currency: "SAR", date: "2025-01-01", rate: 1 });
+    assert.equal(rateOn(rates, "GBP", "2025-01-01"), undefined);
+});
+
+test("converts into the base currency", () => {
+    assert.deepEqual(convert(rates, 10, "USD", "SAR", "2025-07-01"), {
+        amount: 37.6,
+        currency: "SAR",
+        rate: 3.76,
+        rateDate: "2025-06-01",
+    });
+});
+
+test("converts between two foreign currencies through the base currency", () => {
+    assert.deepEqual(convert(rates, 100, "EUR", "USD", "2025-04-01"), {
+        amount: 106.67,
+        currency: "USD",
+        rate: 1.066667,
+        rateDate: "2025-01-01",
+    });
+});
+
+test("the same currency converts at 1, and a missing rate converts to nothing", () => {
+    assert.deepEqual(convert(rates, 12.5, "GBP", "GBP", "2025-04-01"), { amount: 12.5, currency: "GBP", rate: 1, rateDate: "2025-04-01" });
+    assert.equal(convert(rates, 12.5, "GBP", "SAR", "2025-04-01"), undefined);
+});
+
+test("a rates file may start with a header, comments and blank lines", () => {
+    const csv = "# exported rates\ncurrency,date,rate\n\nUSD,2025-01-01,3.75\r\nEUR, 2025-03-01 ,4\n";
+
+    assert.deepEqual(parseRatesCsv(csv), [
+        { currency: "USD", date: "2025-01-01", rate: 3.75 },
+        { currency: "EUR", date: "2025-03-01", rate: 4 },
+    ]);
+});
+
+test("a rates file names its first bad line", () => {
+    assert.throws(() => parseRatesCsv("USD,2025-02-30,3.75"), /line 1: '2025-02-30' is not a YYYY-MM-DD date/);
+    assert.throws(() => parseRatesCsv("USD,2025-01-01,3.75\nSAR,2025-01-01,1"), /line 2: SAR is the base currency/);
+    assert.throws(() => parseRatesCsv("# nothing here\n"), /contains no rates/);
+});
+
+test("a header after the first rate is reported as a stray header", () => {
+    assert.throws(
+        () => parseRatesCsv("USD,2025-01-01,3.75\ncurrency,date,rate\nEUR,2025-03-01,4"),
+        /line 2: a currency,date,rate header may only come before the first rate/
+    );
+});
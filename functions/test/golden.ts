@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_RULE_SET, parseTransaction } from "../src/routes/transactions/utils";
+
+// Compiled to lib-test/test, so resolve the checked-in data from the source tree
+const TEST_DIR = path.resolve(__dirname, "..", "..", "test");
+export const FIXTURES_DIR = path.join(TEST_DIR, "fixtures", "messages");
+export const GOLDEN_DIR = path.join(TEST_DIR, "golden");
+
+/**
+ * Anonymized sample SMS for one bank format, stored as test/fixtures/messages/<bank>.json
+ */
+export interface MessageFixture {
+    bank: string;
+    receivedAt: string; // Anchors date inference so the goldens do not depend on the day the tests run
+    messages: Array<{ name: string; text: string; senderId?: string; receivedAt?: string }>;
+}
+
+/**
+ * Parser output for every message of a fixture, keyed by message name
+ * A message the parser rejects records its error instead
+ */
+export type GoldenOutput = Record<string, unknown>;
+
+/**
+ * Every fixture in the corpus, sorted by bank
+ */
+export function loadFixtures(): MessageFixture[] {
+    return fs.readdirSync(FIXTURES_DIR)
+        .filter((file) => file.endsWith(".json"))
+        .sort()
+        .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), "utf8")) as MessageFixture);
+}
+
+/**
+ * Run the parser with the built-in rules over a fixture
+ * Output goes through JSON so it compares equal to what was written to the golden file
+ */
+export function runFixture(fixture: MessageFixture): GoldenOutput {
+    const output: GoldenOutput = {};
+    for (const message of fixture.messages) {
+        const receivedAt = new Date(message.receivedAt || fixture.receivedAt);
+        try {
+            output[message.name] = JSON.parse(JSON.stringify(parseTransaction(message.text, DEFAULT_RULE_SET, {
+                receivedAt,
+                senderId: message.senderId,
+            })));
+        } catch (error) {
+            output[message.name] = { error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+    return output;
+}
+
+/**
+ * Path of a bank's golden file
+ */
+export function goldenPath(bank: string): string {
+    return path.join(GOLDEN_DIR, `${bank}.json`);
+}
+
+/**
+ * Read a bank's golden output, or undefined if it was never generated
+ */
+export function readGolden(bank: string): GoldenOutput | undefined {
+    const file = goldenPath(bank);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : undefined;
+}
+
+/**
+ * Write a bank's golden output
+ */
+export function writeGolden(bank: string, output: GoldenOutput): void {
+    fs.writeFileSync(goldenPath(bank), `${JSON.stringify(output, null, 4)}\n`);
+}
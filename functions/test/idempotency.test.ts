@@ -0,0 +1,202 @@
+import { FakeFirestore, fakeFirestore } from "./firestore";
+import { TestContext, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { Request, Response } from "express";
+import * as functions from "firebase-functions";
+import { Timestamp } from "../src/config/firebase";
+import { AppError, errorHandler } from "../src/middleware/error-handler";
+import { idempotent } from "../src/middleware/idempotency";
+import { IdempotencyService } from "../src/services/idempotency-service";
+
+const { claim, complete, release } = IdempotencyService.prototype;
+
+/**
+ * Response double recording what the middleware and handler send
+ */
+interface FakeResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body?: unknown;
+    status(code: number): FakeResponse;
+    set(name: string, value: string): FakeResponse;
+    type(type: string): FakeResponse;
+    send(body: unknown): FakeResponse;
+    json(body: unknown): FakeResponse;
+}
+
+/**
+ * Point the middleware's idempotency service at a fresh in-memory store for one test
+ */
+function useStore(t: TestContext): { db: FakeFirestore; service: IdempotencyService } {
+    const db = fakeFirestore();
+    const service = new IdempotencyService();
+    Object.assign(service, { db, keysCollection: db.collection("idempotencyKeys") });
+
+    t.mock.method(IdempotencyService.prototype, "claim", (...args: Parameters<typeof claim>) => claim.apply(service, args));
+    t.mock.method(IdempotencyService.prototype, "complete", (...args: Parameters<typeof complete>) => complete.apply(service, args));
+    t.mock.method(IdempotencyService.prototype, "release", (...args: Parameters<typeof release>) => release.apply(service, args));
+    return { db, service };
+}
+
+/**
+ * Run a POST through the middleware; the handler only runs if the middleware lets the request through
+ */
+async function send(
+    body: unknown,
+    handler: (req: Request, res: Response) => void,
+    key: string | null = "key-1"
+): Promise<{ res: FakeResponse; error?: unknown; handled: boolean }> {
+    const req = {
+        method: "POST",
+        baseUrl: "/transactions",
+        path: "/parse",
+        originalUrl: "/transactions/parse",
+        body,
+        user: { uid: "user-1" },
+        get: (name: string) => (name === "Idempotency-Key" && key !== null ? key : undefined),
+    } as unknown as Request;
+    const res: FakeResponse = {
+        statusCode: 200,
+        headers: {},
+        status(code) {
+            this.statusCode = code;
+            return this;
+        },
+        set(name, value) {
+            this.headers[name] = value;
+            return this;
+        },
+        type() {
+            return this;
+        },
+        send(sent) {
+            this.body = sent;
+            return this;
+        },
+        json(sent) {
+            this.body = sent;
+            return this;
+        },
+    };
+
+    const result: { res: FakeResponse; error?: unknown; handled: boolean } = { res, handled: false };
+    await idempotent(req, res as unknown as Response, (error?: unknown) => {
+        if (error) {
+            result.error = error;
+            return;
+        }
+        result.handled = true;
+        handler(req, res as unknown as Response);
+    });
+    // The response is sent once it has been recorded
+    await new Promise((resolve) => setImmediate(resolve));
+    return result;
+}
+
+const created = (req: Request, res: Response) => {
+    res.status(201).json({ id: "tx1" });
+};
+
+test("a request without an Idempotency-Key runs as usual, and a malformed key is a 400", async (t) => {
+    const { db } = useStore(t);
+
+    const plain = await send({ text: "sms" }, created, null);
+    assert.equal(plain.handled, true);
+    assert.equal(db.docs.size, 0);
+
+    const malformed = await send({ text: "sms" }, created, "key with spaces");
+    assert.equal(malformed.handled, false);
+    assert.ok(malformed.error instanceof AppError && malformed.error.statusCode === 400);
+});
+
+test("the first request claims the key and its response is recorded", async (t) => {
+    const { db } = useStore(t);
+
+    const first = await send({ text: "sms" }, created);
+
+    assert.equal(first.handled, true);
+    assert.deepEqual(first.res.body, { id: "tx1" });
+    const [record] = [...db.docs.values()];
+    assert.equal(record.status, "completed");
+    assert.equal(record.statusCode, 201);
+    assert.equal(record.responseBody, "{\"id\":\"tx1\"}");
+});
+
+test("a retry with the same key and body replays the recorded response", async (t) => {
+    useStore(t);
+    await send({ text: "sms" }, created);
+
+    const retry = await send({ text: "sms" }, () => assert.fail("the handler ran twice"));
+
+    assert.equal(retry.handled, false);
+    assert.equal(retry.res.statusCode, 201);
+    assert.equal(retry.res.headers["Idempotent-Replayed"], "true");
+    assert.equal(retry.res.body, "{\"id\":\"tx1\"}");
+});
+
+test("a client error is recorded and replayed like a success", async (t) => {
+    useStore(t);
+    await send({ text: "" }, (req, res) => {
+        res.status(400).json({ success: false });
+    });
+
+    const retry = await send({ text: "" }, () => assert.fail("the handler ran twice"));
+
+    assert.equal(retry.res.statusCode, 400);
+});
+
+test("reusing a key for a different body is a 422", async (t) => {
+    useStore(t);
+    await send({ text: "sms" }, created);
+
+    const reused = await send({ text: "another sms" }, created);
+
+    assert.equal(reused.handled, false);
+    assert.ok(reused.error instanceof AppError && reused.error.statusCode === 422);
+});
+
+test("a retry while the first request is still running is a 409", async (t) => {
+    useStore(t);
+    await send({ text: "sms" }, () => undefined);
+
+    const retry = await send({ text: "sms" }, created);
+
+    assert.equal(retry.handled, false);
+    assert.ok(retry.error instanceof AppError && retry.error.statusCode === 409);
+});
+
+test("a handler that throws releases the key so the request can be retried", async (t) => {
+    const { db } = useStore(t);
+    t.mock.method(functions.logger, "error", () => undefined);
+
+    const failed = await send({ text: "sms" }, (req, res) => {
+        errorHandler(new Error("Firestore unavailable"), req, res, () => undefined);
+    });
+    assert.equal(failed.res.statusCode, 500);
+    assert.equal(db.docs.size, 0);
+
+    const retry = await send({ text: "sms" }, created);
+    assert.equal(retry.handled, true);
+    assert.deepEqual(retry.res.body, { id: "tx1" });
+});
+
+test("an expired key or an abandoned claim can be claimed again", async (t) => {
+    const { db, service } = useStore(t);
+
+    assert.equal(await service.claim("scope", "key-1", "hash"), undefined);
+    const [path] = [...db.docs.keys()];
+    assert.deepEqual(await service.claim("scope", "key-1", "hash"), {
+        requestHash: "hash",
+        status: "processing",
+        statusCode: undefined,
+        responseBody: undefined,
+    });
+
+    db.docs.set(path, { ...db.docs.get(path), createdAt: Timestamp.fromMillis(Date.now() - 301 * 1000) });
+    assert.equal(await service.claim("scope", "key-1", "hash"), undefined);
+
+    await service.complete("scope", "key-1", 201, "{}");
+    db.docs.set(path, { ...db.docs.get(path), expiresAt: Timestamp.fromMillis(Date.now() - 1) });
+    assert.equal(await service.claim("scope", "key-1", "other-hash"), undefined);
+    assert.equal(db.docs.get(path)?.requestHash, "other-hash");
+});
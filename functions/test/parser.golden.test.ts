@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import { BANK_PATTERNS } from "../src/routes/transactions/const";
+import { GOLDEN_DIR, loadFixtures, readGolden, runFixture } from "./golden";
+
+const UPDATE_HINT = "run `npm run test:update-goldens` and review the diff if the change is intended";
+
+const fixtures = loadFixtures();
+
+test("every bank format has sample messages", () => {
+    const banks = fixtures.map((fixture) => fixture.bank);
+    const missing = Object.keys(BANK_PATTERNS).filter((bank) => !banks.includes(bank));
+
+    assert.deepEqual(missing, [], `No fixture for bank format(s): ${missing.join(", ")}`);
+});
+
+test("every golden file has a fixture", () => {
+    const banks = fixtures.map((fixture) => `${fixture.bank}.json`);
+    const stale = fs.readdirSync(GOLDEN_DIR).filter((file) => file.endsWith(".json") && !banks.includes(file));
+
+    assert.deepEqual(stale, [], `Golden file(s) without a fixture: ${stale.join(", ")}`);
+});
+
+for (const fixture of fixtures) {
+    test(`parses ${fixture.bank} messages`, async (t) => {
+        const golden = readGolden(fixture.bank);
+        assert.ok(golden, `No golden output for ${fixture.bank}; ${UPDATE_HINT}`);
+
+        const output = runFixture(fixture);
+        assert.deepEqual(Object.keys(output), Object.keys(golden), `Messages differ from the golden output; ${UPDATE_HINT}`);
+
+        for (const [name, parsed] of Object.entries(output)) {
+            await t.test(name, () => {
+                assert.deepEqual(parsed, golden[name], `Output for ${fixture.bank}/${name} changed; ${UPDATE_HINT}`);
+            });
+        }
+    });
+}
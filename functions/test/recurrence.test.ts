@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { detectRecurrenceWithHistory } from "../src/routes/transactions/utils";
+import { toSeriesRecurrence } from "../src/services/transaction-service";
+import { ParsedTransaction, RecurrenceCandidate } from "../src/routes/transactions/types";
+
+const current = { merchant: "Netflix", amount: 100, currency: "SAR", date: "2025-03-10" } as ParsedTransaction;
+
+/**
+ * Earlier payments to the current merchant on the given dates, numbered in order
+ */
+function history(dates: string[], changes: Partial<RecurrenceCandidate> = {}): RecurrenceCandidate[] {
+    return dates.map((date, index) => ({ id: `t${index}`, merchant: "NETFLIX", amount: 100, currency: "SAR", date, ...changes }));
+}
+
+test("three payments a month apart are a monthly series", () => {
+    const { recurrence, matches } = detectRecurrenceWithHistory(current, history(["2025-01-10", "2025-02-10"]));
+
+    assert.deepEqual(recurrence, { isRecurring: true, period: "monthly", confidence: 0.6, occurrences: 3 });
+    assert.deepEqual(matches.map((match) => match.id), ["t0", "t1"]);
+});
+
+test("weekly gaps count from 6 to 8 days", () => {
+    const weekly = { ...current, date: "2025-03-15" };
+
+    assert.equal(detectRecurrenceWithHistory(weekly, history(["2025-03-01", "2025-03-07"])).recurrence.period, "weekly");
+    assert.equal(detectRecurrenceWithHistory(weekly, history(["2025-02-28", "2025-03-06"])).recurrence.isRecurring, false);
+    assert.equal(detectRecurrenceWithHistory(weekly, history(["2025-03-03", "2025-03-09"])).recurrence.period, "weekly");
+    assert.equal(detectRecurrenceWithHistory(weekly, history(["2025-03-03", "2025-03-10"])).recurrence.isRecurring, false);
+});
+
+test("monthly gaps count from 26 to 34 days", () => {
+    assert.equal(detectRecurrenceWithHistory(current, history(["2024-12-09", "2025-01-12", "2025-02-12"])).recurrence.occurrences, 4);
+    assert.equal(detectRecurrenceWithHistory(current, history(["2024-12-08", "2025-01-12", "2025-02-12"])).recurrence.occurrences, 3);
+    assert.equal(detectRecurrenceWithHistory(current, history(["2025-01-04", "2025-02-04"])).recurrence.period, "monthly");
+    assert.equal(detectRecurrenceWithHistory(current, history(["2025-01-03", "2025-02-03"])).recurrence.isRecurring, false);
+});
+
+test("payments within 10% of this amount join the series, and other currencies do not", () => {
+    const dates = ["2025-01-10", "2025-02-10"];
+
+    assert.equal(detectRecurrenceWithHistory(current, history(dates, { amount: 110 })).recurrence.isRecurring, true);
+    assert.equal(detectRecurrenceWithHistory(current, history(dates, { amount: 90 })).recurrence.isRecurring, true);
+    assert.equal(detectRecurrenceWithHistory(current, history(dates, { amount: 110.01 })).recurrence.isRecurring, false);
+    assert.equal(detectRecurrenceWithHistory(current, history(dates, { currency: "USD" })).recurrence.isRecurring, false);
+});
+
+test("payments on the same day count as one occurrence", () => {
+    const { recurrence, matches } = detectRecurrenceWithHistory(current, history(["2025-02-10", "2025-02-10", "2025-03-10"]));
+
+    assert.equal(recurrence.isRecurring, false);
+    assert.deepEqual(matches, []);
+
+    const series = detectRecurrenceWithHistory(current, history(["2025-01-10", "2025-02-10", "2025-02-10"]));
+    assert.equal(series.recurrence.occurrences, 3);
+    assert.deepEqual(series.matches.map((match) => match.id), ["t0", "t1", "t2"]);
+});
+
+test("two payments, or an unknown merchant, are not a series", () => {
+    assert.deepEqual(detectRecurrenceWithHistory(current, history(["2025-02-10"])).recurrence, { isRecurring: false, confidence: 0 });
+
+    const unknown = { ...current, merchant: "Unknown Merchant" };
+    const payments = history(["2025-01-10", "2025-02-10"], { merchant: "Unknown Merchant" });
+    assert.equal(detectRecurrenceWithHistory(unknown, payments).recurrence.isRecurring, false);
+});
+
+test("the run stops where the gaps change period", () => {
+    const { recurrence, matches } = detectRecurrenceWithHistory(current, history(["2024-06-01", "2025-01-10", "2025-02-10"]));
+
+    assert.equal(recurrence.occurrences, 3);
+    assert.deepEqual(matches.map((match) => match.id), ["t1", "t2"]);
+});
+
+test("a series keeps the id an earlier payment carries, or starts with this transaction's", () => {
+    const { recurrence, matches } = detectRecurrenceWithHistory(current, [
+        ...history(["2025-01-10"]),
+        ...history(["2025-02-10"], { id: "t1", recurrence: { isRecurring: true, seriesId: "t0-series" } }),
+    ]);
+
+    assert.equal(toSeriesRecurrence(recurrence, matches, "new").seriesId, "t0-series");
+    assert.equal(toSeriesRecurrence(recurrence, history(["2025-01-10", "2025-02-10"]), "new").seriesId, "new");
+});
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { isPriceChange, subscriptionStatus } from "../src/services/subscription-service";
+
+test("a charge within 1% of the last one is not a price change", () => {
+    assert.equal(isPriceChange(100, 100), false);
+    assert.equal(isPriceChange(100, 101), false);
+    assert.equal(isPriceChange(100, 99), false);
+});
+
+test("a charge more than 1% off the last one is a price change, up or down", () => {
+    assert.equal(isPriceChange(100, 101.01), true);
+    assert.equal(isPriceChange(21.99, 26.99), true);
+    assert.equal(isPriceChange(100, 98.5), true);
+});
+
+test("a subscription is active until the grace days after the expected charge pass", () => {
+    assert.equal(subscriptionStatus("2025-03-10", "monthly", "2025-03-01"), "active");
+    assert.equal(subscriptionStatus("2025-03-10", "monthly", "2025-03-15"), "active");
+    assert.equal(subscriptionStatus("2025-03-10", "monthly", "2025-03-16"), "missed");
+});
+
+test("a subscription is cancelled once two charges in a row are missed", () => {
+    assert.equal(subscriptionStatus("2025-03-10", "monthly", "2025-04-15"), "missed");
+    assert.equal(subscriptionStatus("2025-03-10", "monthly", "2025-04-16"), "cancelled");
+    assert.equal(subscriptionStatus("2025-03-10", "weekly", "2025-03-20"), "cancelled");
+});
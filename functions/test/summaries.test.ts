@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { SummaryEntry, addToSummary, toSummaryChanges } from "../src/services/summary-service";
+import { MonthlySummary } from "../src/routes/transactions/types";
+
+const stored = {
+    amount: 21.99,
+    currency: "SAR",
+    category: "Entertainment",
+    merchant: "Spotify AB",
+    direction: "debit",
+    date: "2025-06-08",
+    note: "family plan",
+};
+
+const entry: SummaryEntry = {
+    month: "2025-06",
+    direction: "debit",
+    category: "Entertainment",
+    merchant: "Spotify AB",
+    currency: "SAR",
+    amount: 21.99,
+};
+
+test("a create adds the transaction to its month", () => {
+    assert.deepEqual(toSummaryChanges(undefined, stored), [{ entry, sign: 1 }]);
+});
+
+test("a delete takes the transaction out of its month", () => {
+    assert.deepEqual(toSummaryChanges(stored, undefined), [{ entry, sign: -1 }]);
+});
+
+test("an edit takes the old version out and adds the new one, across months", () => {
+    const changes = toSummaryChanges(stored, { ...stored, date: "2025-07-01", amount: 26.99 });
+
+    assert.deepEqual(changes, [
+        { entry, sign: -1 },
+        { entry: { ...entry, month: "2025-07", amount: 26.99 }, sign: 1 },
+    ]);
+});
+
+test("an edit of fields the summary does not count changes nothing", () => {
+    assert.deepEqual(toSummaryChanges(stored, { ...stored, note: "", recurrence: { isRecurring: true } }), []);
+});
+
+test("missing fields take the analytics defaults, and undated transactions are not counted", () => {
+    const legacy = { amount: "5", date: "2025-06-09" };
+
+    assert.deepEqual(toSummaryChanges(undefined, legacy), [{
+        entry: { month: "2025-06", direction: "debit", category: "Other", merchant: "Unknown Merchant", currency: "SAR", amount: 5 },
+        sign: 1,
+    }]);
+    assert.deepEqual(toSummaryChanges(undefined, { ...stored, date: undefined }), []);
+});
+
+test("a rebuild totals transactions per month, direction, group and currency", () => {
+    const summaries = new Map<string, MonthlySummary>();
+    const entries: SummaryEntry[] = [
+        entry,
+        { ...entry, amount: 10 },
+        { ...entry, currency: "USD", amount: 5 },
+        { ...entry, direction: "credit", category: "Salary", merchant: "Employer", amount: 1000 },
+        { ...entry, month: "2025-07" },
+    ];
+    entries.forEach((value) => addToSummary(summaries, value));
+
+    assert.deepEqual([...summaries.keys()], ["2025-06", "2025-07"]);
+    assert.deepEqual(summaries.get("2025-06"), {
+        month: "2025-06",
+        debit: {
+            count: 3,
+            byCurrency: { SAR: { total: 31.99, count: 2 }, USD: { total: 5, count: 1 } },
+            byCategory: { Entertainment: { SAR: { total: 31.99, count: 2 }, USD: { total: 5, count: 1 } } },
+            byMerchant: { "Spotify AB": { SAR: { total: 31.99, count: 2 }, USD: { total: 5, count: 1 } } },
+        },
+        credit: {
+            count: 1,
+            byCurrency: { SAR: { total: 1000, count: 1 } },
+            byCategory: { Salary: { SAR: { total: 1000, count: 1 } } },
+            byMerchant: { Employer: { SAR: { total: 1000, count: 1 } } },
+        },
+    });
+});
@@ -0,0 +1,33 @@
+import * as fs from "fs";
+import { GOLDEN_DIR, goldenPath, loadFixtures, readGolden, runFixture, writeGolden } from "./golden";
+
+/**
+ * Regenerate test/golden from the fixture corpus and list the goldens that changed
+ * Review the resulting git diff before committing it
+ */
+function updateGoldens(): void {
+    fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+    const fixtures = loadFixtures();
+    const banks = new Set(fixtures.map((fixture) => fixture.bank));
+
+    for (const fixture of fixtures) {
+        const output = runFixture(fixture);
+        const previous = readGolden(fixture.bank);
+        if (JSON.stringify(previous) === JSON.stringify(output)) {
+            continue;
+        }
+        writeGolden(fixture.bank, output);
+        console.log(`${previous ? "updated" : "created"} ${goldenPath(fixture.bank)}`);
+    }
+
+    // Drop goldens whose fixture was removed
+    for (const file of fs.readdirSync(GOLDEN_DIR)) {
+        const bank = file.slice(0, -".json".length);
+        if (file.endsWith(".json") && !banks.has(bank)) {
+            fs.unlinkSync(goldenPath(bank));
+            console.log(`removed ${goldenPath(bank)}`);
+        }
+    }
+}
+
+updateGoldens();